@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { POST } from "./route";
+import { HOSTILE_URLS, postRequest } from "../../../test/requests";
+
+describe("POST /api/download", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await POST(postRequest("/api/download", { url, format: "best" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each([["startTime", "soon"], ["endTime", "1:xx"], ["startTime", -5], ["endTime", true]])("rejects an unreadable %s %j", async (field, value) => {
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    const response = await POST(postRequest("/api/download", { url, format: "best", [field]: value }));
+    expect(response.status).toBe(400);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("accepts a start time given as a number of seconds", async () => {
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    const response = await POST(postRequest("/api/download", { url, format: "best", startTime: 90, endTime: "2:00" }));
+    // Past validation, the request reaches yt-dlp (which isn't installed here)
+    expect(response.status).not.toBe(400);
+    expect(spawn).toHaveBeenCalled();
+  });
+
+  it.each([
+    { container: "toString", videoCodec: "h264" },
+    { container: "mp4", videoCodec: "constructor" },
+  ])("rejects video options naming a prototype key %j", async (video) => {
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    const response = await POST(postRequest("/api/download", { url, format: "best", video }));
+    expect(response.status).toBe(400);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each(["toString", "constructor"])("rejects the audio codec %j", async (codec) => {
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    const response = await POST(postRequest("/api/download", { url, format: "bestaudio", audio: { codec, bitrate: 192 } }));
+    expect(response.status).toBe(400);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
@@ -1,60 +1,93 @@
 import { NextRequest } from 'next/server'
-import { spawn, exec } from 'child_process'
-import { promisify } from 'util'
-import { unlink, access } from 'fs/promises'
-import { join } from 'path'
+import { unlink, access, stat, readdir, readFile } from 'fs/promises'
+import { join, dirname, basename } from 'path'
 import { tmpdir } from 'os'
-
-const execAsync = promisify(exec)
+import { streamProcessOutput, streamFile } from '@/lib/stream'
+import { parseTimeToSeconds } from '@/lib/utils'
+import { parseCutMode, CLIPPING_STATUS, type CutMode } from '@/lib/clip'
+import { parseAudioOptions, audioExtractArgs, type AudioOptions } from '@/lib/audio'
+import { isMergedFormat, downloadInfoArgs, parseDownloadInfo, type DownloadInfo } from '@/lib/formats'
+import { parseVideoOptions, videoFormatArgs, defaultVideoOptions, type VideoOptions } from '@/lib/container'
+import { sniffMediaType, sniffFile, reencodeVideo, type MediaType } from '@/lib/media'
+import { parseFilenameTemplate, renderFilename, contentDisposition } from '@/lib/filename'
+import { embedMetadataArgs } from '@/lib/embed'
+import { parseSubtitleLangs, subtitleEmbedError, embedSubtitleArgs } from '@/lib/subtitles'
+import { parseMediaUrl } from '@/lib/urls'
+import { platformError } from '@/lib/url-guard'
+import { getYtDlpVersion, download, downloadSections, streamDownload } from '@/lib/ytdlp'
+import { classifyError, mediaErrorResponse, toolMissingError } from '@/lib/errors'
+import { MAX_STDERR } from '@/lib/process'
 
 export async function POST(request: NextRequest) {
   try {
-    const { url, format, startTime, endTime } = await request.json()
-    
-    console.log('Download request:', { url, format, startTime, endTime })
+    const { url: rawUrl, format, startTime, endTime, cutMode, audio, video, filenameTemplate, embedMetadata, subtitles } = await request.json()
 
-    if (!url) {
+    if (!rawUrl) {
       return Response.json({ error: 'URL is required' }, { status: 400 })
     }
+    const url = parseMediaUrl(rawUrl)
+    if (!url) {
+      return Response.json({ error: 'Invalid URL', details: 'Please provide a valid http(s) video URL.' }, { status: 400 })
+    }
+    const blocked = platformError(url)
+    if (blocked) {
+      return Response.json({ error: blocked }, { status: 403 })
+    }
 
-    // Check if yt-dlp is available
-    try {
-      const { stdout } = await execAsync('yt-dlp --version')
-      console.log('yt-dlp version:', stdout.trim())
-    } catch (error) {
-      console.error('yt-dlp not found:', error)
-      return Response.json({ 
-        error: 'yt-dlp is not installed or not in PATH. Please install it using: pip install yt-dlp',
-        details: 'The yt-dlp binary could not be found on the system.'
-      }, { status: 500 })
+    // For clipping, yt-dlp downloads only the requested section. Audio
+    // extraction, merging separate streams (e.g. "137+140"), picking a
+    // container or codec and embedding metadata or subtitles need a
+    // post-processing step, so all of them go through a temp file.
+    const needsClipping = !!(startTime || endTime)
+    const needsMerge = isMergedFormat(format)
+    const audioOptions = parseAudioOptions(audio)
+    const videoOptions = parseVideoOptions(video)
+    const template = parseFilenameTemplate(filenameTemplate)
+    const subtitleLangs = parseSubtitleLangs(subtitles)
+
+    if (audio && !audioOptions) {
+      return Response.json({ error: 'Invalid audio options' }, { status: 400 })
+    }
+    if (video && !videoOptions) {
+      return Response.json({ error: 'Invalid video options' }, { status: 400 })
+    }
+    // An unreadable time would silently turn the clip into a full download
+    if (!isTimeOrEmpty(startTime) || !isTimeOrEmpty(endTime)) {
+      return Response.json({ error: 'Invalid time format', details: 'Use seconds, mm:ss or hh:mm:ss.' }, { status: 400 })
     }
 
-    // Convert time format (mm:ss or hh:mm:ss) to seconds
-    const parseTimeToSeconds = (timeStr: string): number | null => {
-      if (!timeStr) return null
-      
-      const parts = timeStr.split(':').map(Number)
-      if (parts.some(isNaN)) return null
-      
-      if (parts.length === 2) {
-        return parts[0] * 60 + parts[1]
-      } else if (parts.length === 3) {
-        return parts[0] * 3600 + parts[1] * 60 + parts[2]
+    if (!subtitleLangs) {
+      return Response.json({ error: 'Invalid subtitle languages' }, { status: 400 })
+    }
+    if (subtitleLangs.length > 0) {
+      const subtitleError = subtitleEmbedError({
+        audio: !!audioOptions,
+        container: (videoOptions ?? defaultVideoOptions).container,
+        clipping: needsClipping,
+      })
+      if (subtitleError) {
+        return Response.json({ error: subtitleError }, { status: 400 })
       }
-      return null
     }
 
-    // For clipping, we'll use a two-step process:
-    // 1. Download full video to temp file
-    // 2. Use ffmpeg to clip it
-    const needsClipping = !!(startTime || endTime)
+    // Check if yt-dlp is available
+    if (!(await getYtDlpVersion())) {
+      return mediaErrorResponse(toolMissingError('yt-dlp', 'The yt-dlp binary could not be found on the system.'))
+    }
 
-    if (needsClipping) {
-      console.log('Clipping requested - using two-step process')
-      return await handleClippedDownload(url, format, startTime, endTime, parseTimeToSeconds)
+    if (needsClipping || audioOptions || needsMerge || videoOptions || embedMetadata || subtitleLangs.length > 0) {
+      return await handleFileDownload(url, format, {
+        startTime,
+        endTime,
+        cutMode: parseCutMode(cutMode),
+        audio: audioOptions,
+        video: videoOptions ?? defaultVideoOptions,
+        template,
+        embedMetadata: embedMetadata === true,
+        subtitleLangs,
+      }, request.signal)
     } else {
-      console.log('No clipping - direct download')
-      return await handleDirectDownload(url, format)
+      return await handleDirectDownload(url, format, template, request.signal)
     }
 
   } catch (error: any) {
@@ -66,213 +99,236 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleDirectDownload(url: string, format: string): Promise<Response> {
-  const args = [
-    '-f', format || 'best',
-    '--no-warnings',
-    '--no-check-certificate',
-    '--no-playlist',
-    '--ignore-errors',
-    '--geo-bypass',
-    '--user-agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-    '-o', '-',
-    url
-  ]
-
-  console.log('Direct download command:', 'yt-dlp', args.join(' '))
-
-  return new Promise<Response>((resolve) => {
-    const child = spawn('yt-dlp', args, {
-      stdio: ['ignore', 'pipe', 'pipe']
-    })
+// A clip start or end: left out, a number of seconds, or seconds, mm:ss or hh:mm:ss
+function isTimeOrEmpty(value: unknown): boolean {
+  return !value || ((typeof value === 'string' || typeof value === 'number') && parseTimeToSeconds(value) !== null)
+}
+
+async function handleDirectDownload(
+  url: string,
+  format: string,
+  template: string,
+  signal: AbortSignal
+): Promise<Response> {
+  // yt-dlp writes the title and chosen resolution here before it starts sending data
+  const infoFile = join(tmpdir(), `temp_download_${Date.now()}.info`)
+
+  // Aborting the request kills yt-dlp, including before any output was sent
+  const child = streamDownload(url, {
+    format: format || 'best',
+    args: downloadInfoArgs(infoFile, 'before_dl'),
+    signal,
+  })
+  child.on('error', (error) => {
+    if (!signal.aborted) console.error('yt-dlp process error:', error)
+  })
 
-    let errorOutput = ''
-    let hasData = false
-    let dataChunks: Buffer[] = []
+  // Only the end is kept, which is where yt-dlp reports the error
+  let errorOutput = ''
+  child.stderr.on('data', (data) => {
+    errorOutput = (errorOutput + data.toString()).slice(-MAX_STDERR)
+  })
 
-    child.stderr.on('data', (data) => {
-      errorOutput += data.toString()
-    })
+  // Label the response after what yt-dlp actually sends
+  let sniffed: MediaType | null = null
+  child.stdout.once('data', (chunk: Buffer) => {
+    sniffed = sniffMediaType(new Uint8Array(chunk))
+  })
 
-    child.stdout.on('data', (chunk) => {
-      hasData = true
-      dataChunks.push(chunk)
-    })
+  // Pipe yt-dlp output straight to the client instead of holding the whole
+  // file in memory; the child is killed if the client disconnects.
+  const stream = await streamProcessOutput(child)
 
-    child.on('exit', (code) => {
-      if (code !== 0 || !hasData) {
-        resolve(Response.json({ 
-          error: 'Download failed',
-          details: errorOutput
-        }, { status: 500 }))
-        return
-      }
+  const info = await readDownloadInfo(infoFile)
 
-      const finalBuffer = Buffer.concat(dataChunks)
-      const isAudio = format?.includes('audio')
-      const contentType = isAudio ? 'audio/mpeg' : 'video/mp4'
-      const extension = isAudio ? 'mp3' : 'mp4'
-      
-      resolve(new Response(finalBuffer, {
-        headers: {
-          'Content-Type': contentType,
-          'Content-Disposition': `attachment; filename="download.${extension}"`,
-          'Content-Length': finalBuffer.length.toString(),
-        },
-      }))
-    })
-  })
+  if (!stream) {
+    return mediaErrorResponse(classifyError({ message: errorOutput.trim() }), 'Download failed')
+  }
+
+  const isAudio = format?.includes('audio')
+  const { ext: extension, contentType } = sniffed ?? (isAudio
+    ? { ext: 'mp3', contentType: 'audio/mpeg' }
+    : { ext: 'mp4', contentType: 'video/mp4' })
+
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Content-Disposition': contentDisposition(renderFilename(template, info ?? {}, extension)),
+  }
+  if (info?.resolution) {
+    headers['X-Delivered-Resolution'] = info.resolution
+  }
+
+  return new Response(stream, { headers })
 }
 
-async function handleClippedDownload(
+interface FileDownloadOptions {
+  startTime?: string | number
+  endTime?: string | number
+  cutMode: CutMode
+  audio: AudioOptions | null
+  video: VideoOptions
+  template: string
+  embedMetadata: boolean
+  // Subtitle languages to mux into the file
+  subtitleLangs: string[]
+}
+
+async function handleFileDownload(
   url: string, 
   format: string, 
-  startTime: string, 
-  endTime: string,
-  parseTimeToSeconds: (timeStr: string) => number | null
+  options: FileDownloadOptions,
+  signal: AbortSignal
 ): Promise<Response> {
-  const tempDir = tmpdir()
-  const tempVideoPath = join(tempDir, `temp_video_${Date.now()}.mp4`)
-  const tempClipPath = join(tempDir, `temp_clip_${Date.now()}.mp4`)
+  const { startTime, endTime, cutMode, audio, video, template, embedMetadata, subtitleLangs } = options
+  const needsClipping = !!(startTime || endTime)
+
+  // yt-dlp picks the extension: the audio codec, or the container the streams ended up in
+  const name = needsClipping ? 'clip' : audio ? 'audio' : 'download'
+  const tempBase = join(tmpdir(), `temp_${name}_${Date.now()}`)
+  const infoFile = `${tempBase}.info`
+  const task = audio
+    ? 'audio conversion'
+    : needsClipping ? 'video clipping' : video.reencode ? 're-encoding video' : 'merging video and audio'
+
+  const startSeconds = parseTimeToSeconds(startTime || '')
+  const endSeconds = parseTimeToSeconds(endTime || '')
+
+  if (startSeconds !== null && endSeconds !== null && endSeconds <= startSeconds) {
+    return Response.json({ error: 'End time must be after start time' }, { status: 400 })
+  }
 
   try {
-    // Step 1: Download video to temporary file
-    console.log('Step 1: Downloading video to temp file')
-    const downloadArgs = [
-      '-f', format || 'best',
-      '--no-warnings',
-      '--no-check-certificate',
-      '--no-playlist',
-      '--ignore-errors',
-      '--geo-bypass',
-      '--user-agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-      '-o', tempVideoPath,
-      url
-    ]
-
-    await new Promise<void>((resolve, reject) => {
-      const downloadChild = spawn('yt-dlp', downloadArgs, {
-        stdio: ['ignore', 'pipe', 'pipe']
-      })
+    const downloadOptions = {
+      format: format || (audio ? 'bestaudio/best' : 'best'),
+      output: `${tempBase}.%(ext)s`,
+      args: [
+        // Separate video and audio streams (e.g. "137+140") are merged into the chosen container
+        ...(audio ? audioExtractArgs(audio) : videoFormatArgs(video)),
+        ...(embedMetadata ? embedMetadataArgs(audio ? audio.codec : video.container) : []),
+        ...(subtitleLangs.length > 0 ? embedSubtitleArgs(subtitleLangs) : []),
+        ...downloadInfoArgs(infoFile),
+      ],
+      signal,
+    }
 
-      let downloadError = ''
-      downloadChild.stderr.on('data', (data) => {
-        downloadError += data.toString()
-      })
+    // Download just the requested range instead of the whole video.
+    // "fast" cuts on keyframes, "accurate" re-encodes around the cut points.
+    if (needsClipping) {
+      await downloadSections(url, { start: startSeconds, end: endSeconds }, cutMode, downloadOptions)
+    } else {
+      await download(url, downloadOptions)
+    }
 
-      downloadChild.on('exit', (code) => {
-        if (code === 0) {
-          resolve()
-        } else {
-          reject(new Error(`Download failed: ${downloadError}`))
-        }
-      })
-    })
+    // Metadata for the filename; the resolution may be lower than requested
+    // when the format selector fell back
+    const info = await readDownloadInfo(infoFile)
 
-    // Check if file exists
-    try {
-      await access(tempVideoPath)
-    } catch {
-      throw new Error('Downloaded video file not found')
+    let tempFilePath = await findDownloadedFile(tempBase, audio)
+    if (!tempFilePath) {
+      throw new Error('Downloaded file not found')
     }
 
-    console.log('Step 2: Clipping video with ffmpeg')
+    if (!audio && video.reencode) {
+      const encoded = `${tempBase}.encoded.${video.container}`
+      await reencodeVideo(tempFilePath, encoded, video, { signal })
+      await unlink(tempFilePath)
+      tempFilePath = encoded
+    }
 
-    // Step 2: Clip the video using ffmpeg
-    const startSeconds = parseTimeToSeconds(startTime)
-    const endSeconds = parseTimeToSeconds(endTime)
+    // Stream the file and remove it once it has been sent
+    const outputPath = tempFilePath
+    const { size } = await stat(outputPath)
+    const { ext: extension, contentType } = await sniffFile(outputPath)
+    const fileStream = streamFile(outputPath, {
+      onFinish: () => {
+        unlink(outputPath).catch((cleanupError) => {
+          console.warn('Failed to clean up temp file:', cleanupError)
+        })
+      },
+    })
 
-    const ffmpegArgs = ['-i', tempVideoPath]
+    const filename = renderFilename(
+      template,
+      info ?? { title: name },
+      extension,
+      needsClipping ? { start: startSeconds, end: endSeconds } : null
+    )
 
-    // Add timing parameters
-    if (startSeconds !== null) {
-      ffmpegArgs.push('-ss', startSeconds.toString())
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Content-Disposition': contentDisposition(filename),
+      'Content-Length': size.toString(),
     }
-
-    if (endSeconds !== null && startSeconds !== null) {
-      const duration = endSeconds - startSeconds
-      ffmpegArgs.push('-t', duration.toString())
-    } else if (endSeconds !== null) {
-      ffmpegArgs.push('-t', endSeconds.toString())
+    if (needsClipping) {
+      headers['X-Clipping-Status'] = CLIPPING_STATUS[cutMode]
+    }
+    if (info?.resolution) {
+      headers['X-Delivered-Resolution'] = info.resolution
     }
 
-    // Add output parameters
-    ffmpegArgs.push(
-      '-c', 'copy', // Copy streams without re-encoding when possible
-      '-avoid_negative_ts', 'make_zero',
-      '-y', // Overwrite output file
-      tempClipPath
-    )
-
-    console.log('ffmpeg command:', 'ffmpeg', ffmpegArgs.join(' '))
+    return new Response(fileStream, { headers })
 
-    // Execute ffmpeg
-    await new Promise<void>((resolve, reject) => {
-      const ffmpegChild = spawn('ffmpeg', ffmpegArgs, {
-        stdio: ['ignore', 'pipe', 'pipe']
-      })
+  } catch (error: any) {
+    // Clean up temp files on error, including yt-dlp's partial and intermediate downloads
+    await cleanupTempFiles(tempBase)
 
-      let ffmpegError = ''
-      ffmpegChild.stderr.on('data', (data) => {
-        ffmpegError += data.toString()
-      })
+    if (signal.aborted) {
+      return Response.json({ error: 'Download cancelled' }, { status: 499 })
+    }
 
-      ffmpegChild.on('exit', (code) => {
-        if (code === 0) {
-          resolve()
-        } else {
-          reject(new Error(`ffmpeg failed: ${ffmpegError}`))
-        }
-      })
-    })
+    console.error('Temp file download error:', error)
 
-    // Step 3: Read the clipped file and return it
-    console.log('Step 3: Reading clipped file')
-    const fs = require('fs').promises
-    const clippedBuffer = await fs.readFile(tempClipPath)
-
-    // Clean up temp files
-    try {
-      await unlink(tempVideoPath)
-      await unlink(tempClipPath)
-    } catch (cleanupError) {
-      console.warn('Failed to clean up temp files:', cleanupError)
+    const failure = classifyError(error)
+    // Name the step that needed ffmpeg; the direct download works without it
+    if (failure.code === 'tool-missing' && failure.error.startsWith('ffmpeg')) {
+      failure.error = `ffmpeg is required for ${task} but is not available on the server`
+      failure.remediation += ' Or use the direct download option.'
     }
 
-    const isAudio = format?.includes('audio')
-    const contentType = isAudio ? 'audio/mpeg' : 'video/mp4'
-    const extension = isAudio ? 'mp3' : 'mp4'
+    return mediaErrorResponse(
+      failure,
+      needsClipping ? 'Video clipping failed' : audio ? 'Audio extraction failed' : video.reencode ? 'Re-encoding failed' : 'Download failed'
+    )
+  }
+}
 
-    return new Response(clippedBuffer, {
-      headers: {
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="clip.${extension}"`,
-        'Content-Length': clippedBuffer.length.toString(),
-        'X-Clipping-Status': 'server-side-clipped',
-      },
-    })
+// The file yt-dlp produced, skipping partial downloads and the info file
+async function findDownloadedFile(tempBase: string, audio: AudioOptions | null): Promise<string | null> {
+  // Extracted audio always ends up with the codec as extension
+  if (audio) {
+    const path = `${tempBase}.${audio.codec}`
+    return access(path).then(() => path, () => null)
+  }
 
-  } catch (error: any) {
-    // Clean up temp files on error
-    try {
-      await unlink(tempVideoPath).catch(() => {})
-      await unlink(tempClipPath).catch(() => {})
-    } catch {}
-
-    console.error('Clipping error:', error)
-
-    // Check if it's an ffmpeg availability issue
-    if (error.message.includes('ffmpeg')) {
-      return Response.json({
-        error: 'ffmpeg is required for video clipping but is not available on the server',
-        details: 'Please install ffmpeg on your server or use the direct download option',
-        suggestion: 'Install ffmpeg with: sudo apt install ffmpeg (Ubuntu/Debian) or brew install ffmpeg (macOS)'
-      }, { status: 500 })
-    }
+  const dir = dirname(tempBase)
+  const prefix = `${basename(tempBase)}.`
+  const name = (await readdir(dir)).find((name) =>
+    name.startsWith(prefix) && !name.endsWith('.part') && !name.endsWith('.info')
+  )
+  return name ? join(dir, name) : null
+}
 
-    return Response.json({
-      error: 'Video clipping failed',
-      details: error.message
-    }, { status: 500 })
+// Read and remove the file written by downloadInfoArgs
+async function readDownloadInfo(path: string): Promise<DownloadInfo | null> {
+  try {
+    return parseDownloadInfo(await readFile(path, 'utf8'))
+  } catch {
+    return null
+  } finally {
+    unlink(path).catch(() => {})
   }
-}
\ No newline at end of file
+}
+
+// Remove every temp file sharing this base name (final output, .part, pre-conversion source)
+async function cleanupTempFiles(tempBase: string) {
+  const dir = dirname(tempBase)
+  const prefix = `${basename(tempBase)}.`
+  try {
+    const names = await readdir(dir)
+    await Promise.all(
+      names
+        .filter((name) => name.startsWith(prefix))
+        .map((name) => unlink(join(dir, name)).catch(() => {}))
+    )
+  } catch {}
+}
@@ -1,11 +1,8 @@
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
+import { runProcess } from '@/lib/process'
 
 export async function GET() {
   try {
-    await execAsync('ffmpeg -version')
+    await runProcess('ffmpeg', ['-version'], { timeout: 10000 })
     return Response.json({ 
       available: true,
       message: 'ffmpeg is installed and available'
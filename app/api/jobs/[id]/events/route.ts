@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server'
+import { getJob, subscribeToJob, type JobSnapshot } from '@/lib/jobs'
+
+// Server-Sent Events stream of job snapshots. Sends the current state right
+// away, then a `progress` event per update and a final `done`, `failed` or `cancelled` event.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const initial = getJob(id)
+
+  if (!initial) {
+    return Response.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let unsubscribe = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const send = (snapshot: JobSnapshot) => {
+        if (closed) return
+        const event =
+          snapshot.status === 'completed' ? 'done'
+          : snapshot.status === 'failed' ? 'failed'
+          : snapshot.status === 'cancelled' ? 'cancelled'
+          : 'progress'
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(snapshot)}\n\n`))
+
+        if (event !== 'progress') {
+          closed = true
+          unsubscribe()
+          controller.close()
+        }
+      }
+
+      unsubscribe = subscribeToJob(id, send)
+      send(initial)
+
+      request.signal.addEventListener('abort', () => {
+        closed = true
+        unsubscribe()
+      })
+    },
+    cancel() {
+      unsubscribe()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  })
+}
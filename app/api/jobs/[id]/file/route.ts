@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { stat } from 'fs/promises'
+import { getJob, getJobFile } from '@/lib/jobs'
+import { streamFile } from '@/lib/stream'
+import { contentDisposition } from '@/lib/filename'
+import { createZipStream } from '@/lib/zip'
+import { archiveEntries } from '@/lib/archive'
+
+// Serve the output of a completed job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const job = getJob(id)
+
+  if (!job) {
+    return Response.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const file = getJobFile(id)
+  if (!file) {
+    return Response.json({ 
+      error: job.status === 'failed' ? 'Job failed' : 'Job is not finished yet',
+      details: job.error || `Current status: ${job.status}`
+    }, { status: 409 })
+  }
+
+  // Batch jobs are archived while they are sent, with a manifest of their items
+  if (file.entries) {
+    return new Response(createZipStream(archiveEntries({ items: [{ type: 'job', id }] }, request.signal)), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': contentDisposition(file.filename),
+      },
+    })
+  }
+
+  try {
+    const { size } = await stat(file.path)
+
+    const headers: Record<string, string> = {
+      'Content-Type': file.contentType,
+      'Content-Disposition': contentDisposition(file.filename),
+      'Content-Length': size.toString(),
+    }
+    if (file.clippingStatus) {
+      headers['X-Clipping-Status'] = file.clippingStatus
+    }
+    if (file.resolution) {
+      headers['X-Delivered-Resolution'] = file.resolution
+    }
+
+    return new Response(streamFile(file.path), { headers })
+  } catch (error: any) {
+    console.error('Job file error:', error)
+    return Response.json({ 
+      error: 'Job output is no longer available',
+      details: error.message 
+    }, { status: 410 })
+  }
+}
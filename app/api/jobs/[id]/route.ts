@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { getJob, cancelJob } from '@/lib/jobs'
+
+// Cancel a running job: kills yt-dlp/ffmpeg and removes its temp files
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const job = getJob(id)
+
+  if (!job) {
+    return Response.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const cancelled = await cancelJob(id)
+  if (!cancelled) {
+    return Response.json({ 
+      error: 'Job has already finished',
+      details: `Current status: ${job.status}`
+    }, { status: 409 })
+  }
+
+  console.log('Cancelled job:', id)
+  return Response.json(getJob(id))
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { POST } from "./route";
+import { HOSTILE_URLS, postRequest } from "../../../test/requests";
+
+describe("POST /api/jobs", () => {
+  it.each(HOSTILE_URLS)("rejects a download of %j without running anything", async (url) => {
+    const response = await POST(postRequest("/api/jobs", { type: "download", url, format: "best" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each(HOSTILE_URLS)("rejects a short of %j without running anything", async (url) => {
+    const response = await POST(postRequest("/api/jobs", { type: "short", url, start: 0, end: 30 }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each(HOSTILE_URLS)("rejects a batch containing %j without running anything", async (url) => {
+    const items = [{ url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" }, { url }];
+    const response = await POST(postRequest("/api/jobs", { type: "batch", items, format: "best" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
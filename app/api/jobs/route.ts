@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { createJob } from '@/lib/jobs'
+import { parseJobRequest } from '@/lib/job-requests'
+
+// Start a background download, clip, batch or shorts export job.
+// Progress is available from /api/jobs/:id/events, the result from /api/jobs/:id/file.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const jobRequest = parseJobRequest(body)
+    if ('error' in jobRequest) {
+      return Response.json({ error: jobRequest.error }, { status: 400 })
+    }
+
+    const job = createJob(jobRequest)
+    console.log('Created job:', job.id, job.kind)
+
+    return Response.json(job, { status: 202 })
+  } catch (error: any) {
+    console.error('Jobs API error:', error)
+    return Response.json({
+      error: 'Internal server error',
+      details: error.message
+    }, { status: 500 })
+  }
+}
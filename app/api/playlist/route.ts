@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { isPlaylistInfo, normalizePlaylist, nestedPlaylistUrl, MAX_PLAYLIST_ENTRIES } from '@/lib/playlist'
+import { getInfo } from '@/lib/ytdlp'
+import { errorResponse } from '@/lib/errors'
+import { parseMediaUrl } from '@/lib/urls'
+import { platformError } from '@/lib/url-guard'
+
+// List the videos of a playlist or channel without extracting each of them
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (!body.url) {
+      return Response.json({ error: 'URL is required' }, { status: 400 })
+    }
+    const url = parseMediaUrl(body.url)
+    if (!url) {
+      return Response.json({ error: 'Invalid URL', details: 'Please provide a valid http(s) playlist or channel URL.' }, { status: 400 })
+    }
+    const blocked = platformError(url)
+    if (blocked) {
+      return Response.json({ error: blocked }, { status: 403 })
+    }
+
+    try {
+      let info = await listPlaylist(url, request.signal)
+      if (!isPlaylistInfo(info)) {
+        return Response.json({ error: 'This URL is a single video, not a playlist or channel' }, { status: 400 })
+      }
+
+      // A channel's home page only lists its tabs; show the videos tab instead
+      const tabUrl = normalizePlaylist(info).entries.length === 0 ? parseMediaUrl(nestedPlaylistUrl(info)) : null
+      if (tabUrl) {
+        console.log('Listing channel tab:', tabUrl)
+        info = await listPlaylist(tabUrl, request.signal)
+      }
+
+      const playlist = normalizePlaylist(info)
+      console.log('Playlist retrieved:', { title: playlist.title, entries: playlist.entries.length })
+      return Response.json(playlist)
+    } catch (execError: any) {
+      console.error('yt-dlp playlist error:', execError)
+      return errorResponse(execError, 'Failed to fetch playlist')
+    }
+  } catch (error: any) {
+    console.error('Playlist API error:', error)
+    return Response.json({
+      error: 'Internal server error',
+      details: error.message
+    }, { status: 500 })
+  }
+}
+
+async function listPlaylist(url: string, signal: AbortSignal): Promise<any> {
+  return getInfo(url, {
+    flatPlaylist: true,
+    playlist: true,
+    playlistEnd: MAX_PLAYLIST_ENTRIES,
+    timeout: 60000,
+    signal,
+  })
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { GET } from "./route";
+import { HOSTILE_URLS, getRequest } from "../../../../test/requests";
+
+describe("GET /api/shorts/crop", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await GET(getRequest("/api/shorts/crop", { url, start: "0", end: "30" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each(["../../../etc/passwd", "..%2f..%2fsecret", "ABCDEF0123456789ABCDEF0123456789", "0123"])(
+    "rejects the cache key %j",
+    async (key) => {
+      const response = await GET(getRequest("/api/shorts/crop", { key }));
+      expect(response.status).toBe(400);
+    }
+  );
+});
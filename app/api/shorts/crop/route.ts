@@ -1,16 +1,21 @@
 import { NextRequest } from "next/server";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { mkdir, readFile, access } from "fs/promises";
+import { mkdir, stat, access, rm, rename } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
-import { createHash } from "crypto";
-
-const execAsync = promisify(exec);
+import { createHash, randomUUID } from "crypto";
+import { runProcess } from "@/lib/process";
+import { getStreamUrl } from "@/lib/ytdlp";
+import { errorResponse } from "@/lib/errors";
+import { streamFile } from "@/lib/stream";
+import { parseMediaUrl } from "@/lib/urls";
+import { platformError } from "@/lib/url-guard";
 
 // Cache directory for cropped videos
 const CACHE_DIR = join(tmpdir(), "shorts-crop-cache");
 
+// Cache keys are md5 hex digests; anything else could point outside CACHE_DIR
+const CACHE_KEY = /^[a-f0-9]{32}$/;
+
 // Generate cache key from URL and time range
 function getCacheKey(url: string, start: number, end: number): string {
   const hash = createHash("md5")
@@ -29,22 +34,31 @@ async function fileExists(path: string): Promise<boolean> {
   }
 }
 
+// Stream a cropped video from disk instead of holding it in memory
+async function videoResponse(path: string, cache: "HIT" | "MISS"): Promise<Response> {
+  const { size } = await stat(path);
+  return new Response(streamFile(path), {
+    headers: {
+      "Content-Type": "video/mp4",
+      "Content-Length": size.toString(),
+      "Cache-Control": "public, max-age=3600",
+      "X-Cache": cache,
+    },
+  });
+}
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   
   // Support direct cache key lookup (pre-cropped during generation)
   const cacheKey = searchParams.get("key");
   if (cacheKey) {
+    if (!CACHE_KEY.test(cacheKey)) {
+      return Response.json({ error: "Invalid cache key" }, { status: 400 });
+    }
     const cachedPath = join(CACHE_DIR, `${cacheKey}.mp4`);
     if (await fileExists(cachedPath)) {
-      const fileBuffer = await readFile(cachedPath);
-      return new Response(new Uint8Array(fileBuffer), {
-        headers: {
-          "Content-Type": "video/mp4",
-          "Cache-Control": "public, max-age=3600",
-          "X-Cache": "HIT",
-        },
-      });
+      return videoResponse(cachedPath, "HIT");
     }
     return Response.json({ error: "Cached video not found" }, { status: 404 });
   }
@@ -59,33 +73,41 @@ export async function GET(request: NextRequest) {
   }
 
   // Decode URL
-  let url = rawUrl;
+  let decodedUrl = rawUrl;
   try {
-    while (url.includes("%")) {
-      const decoded = decodeURIComponent(url);
-      if (decoded === url) break;
-      url = decoded;
+    while (decodedUrl.includes("%")) {
+      const decoded = decodeURIComponent(decodedUrl);
+      if (decoded === decodedUrl) break;
+      decodedUrl = decoded;
     }
   } catch {}
 
+  const url = parseMediaUrl(decodedUrl);
+  if (!url) {
+    return Response.json({ error: "Invalid URL" }, { status: 400 });
+  }
+  const blocked = platformError(url);
+  if (blocked) {
+    return Response.json({ error: blocked }, { status: 403 });
+  }
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    return Response.json({ error: "Invalid time range" }, { status: 400 });
+  }
+
+  const generatedKey = getCacheKey(url, start, end);
+  const cachedPath = join(CACHE_DIR, `${generatedKey}.mp4`);
+  // Rendered under its own name and renamed when done, so concurrent
+  // requests never see a half-written file at cachedPath
+  const partialPath = join(CACHE_DIR, `${generatedKey}.${randomUUID()}.partial.mp4`);
+
   try {
     // Ensure cache directory exists
     await mkdir(CACHE_DIR, { recursive: true });
 
-    const generatedKey = getCacheKey(url, start, end);
-    const cachedPath = join(CACHE_DIR, `${generatedKey}.mp4`);
-
     // Check if already cached
     if (await fileExists(cachedPath)) {
-      console.log("Serving cached cropped video:", cacheKey);
-      const fileBuffer = await readFile(cachedPath);
-      return new Response(new Uint8Array(fileBuffer), {
-        headers: {
-          "Content-Type": "video/mp4",
-          "Cache-Control": "public, max-age=3600",
-          "X-Cache": "HIT",
-        },
-      });
+      console.log("Serving cached cropped video:", generatedKey);
+      return await videoResponse(cachedPath, "HIT");
     }
 
     console.log("Generating cropped video:", { url, start, end });
@@ -94,59 +116,45 @@ export async function GET(request: NextRequest) {
 
     // Get direct URL with audio using yt-dlp (format that includes both video+audio)
     console.log("Step 1: Getting direct URL from yt-dlp...");
-    const { stdout: formatUrl } = await execAsync(
-      `yt-dlp -f "best[height<=720]/best" -g --no-warnings "${url}"`,
-      { timeout: 30000 }
-    );
-    
-    const directUrl = formatUrl.trim();
-    if (!directUrl) {
-      throw new Error("Could not get video URL from yt-dlp");
-    }
+    const directUrl = await getStreamUrl(url, "best[height<=720]/best", { timeout: 30000, signal: request.signal });
     console.log("Got direct URL:", directUrl.substring(0, 100) + "...");
 
     // Use FFmpeg to download segment and crop in one step
-    const ffmpegCmd = [
-      "ffmpeg",
+    const ffmpegArgs = [
       "-y",
       "-ss", start.toString(),
-      `-i "${directUrl}"`,
+      "-i", directUrl,
       "-t", duration.toString(),
-      "-vf", '"crop=ih*9/16:ih,scale=720:1280"',
+      "-vf", "crop=ih*9/16:ih,scale=720:1280",
       "-c:v", "libx264",
       "-preset", "fast",
       "-crf", "23",
       "-c:a", "aac",
       "-b:a", "128k",
       "-movflags", "+faststart",
-      `"${cachedPath}"`,
-    ].join(" ");
+      partialPath,
+    ];
 
     console.log("Step 2: Processing with FFmpeg...");
-    console.log("Command:", ffmpegCmd);
-    const { stderr: ffErr } = await execAsync(ffmpegCmd, { timeout: 180000 });
+    const { stderr: ffErr } = await runProcess("ffmpeg", ffmpegArgs, { timeout: 180000, signal: request.signal });
     if (ffErr) console.log("FFmpeg stderr:", ffErr);
 
     // Verify output exists
-    if (!(await fileExists(cachedPath))) {
+    if (!(await fileExists(partialPath))) {
       throw new Error("FFmpeg processing failed - output file not created");
     }
+    await rename(partialPath, cachedPath);
 
-    // Read and return the file
-    const fileBuffer = await readFile(cachedPath);
-    
-    return new Response(new Uint8Array(fileBuffer), {
-      headers: {
-        "Content-Type": "video/mp4",
-        "Cache-Control": "public, max-age=3600",
-        "X-Cache": "MISS",
-      },
-    });
+    return await videoResponse(cachedPath, "MISS");
   } catch (error: any) {
+    await rm(partialPath, { force: true }).catch(() => {});
+
+    if (request.signal.aborted) {
+      console.log("Crop cancelled by client");
+      return Response.json({ error: "Crop cancelled" }, { status: 499 });
+    }
+
     console.error("Crop error:", error);
-    return Response.json(
-      { error: "Failed to crop video", details: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to crop video");
   }
 }
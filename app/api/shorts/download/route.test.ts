@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { GET } from "./route";
+import { HOSTILE_URLS, getRequest } from "../../../../test/requests";
+
+describe("GET /api/shorts/download", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await GET(getRequest("/api/shorts/download", { url, start: "0", end: "30" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
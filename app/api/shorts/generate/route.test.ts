@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { POST } from "./route";
+import { HOSTILE_URLS, postRequest } from "../../../../test/requests";
+
+describe("POST /api/shorts/generate", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await POST(postRequest("/api/shorts/generate", { url }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each(["constructor", "toString"])("rejects the platform %j", async (platform) => {
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    const response = await POST(postRequest("/api/shorts/generate", { url, options: { platform } }));
+    expect(response.status).toBe(400);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
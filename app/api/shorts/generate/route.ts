@@ -1,19 +1,22 @@
 import { NextRequest } from "next/server";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { readFile, mkdir } from "fs/promises";
-import { join } from "path";
-import { tmpdir } from "os";
-import { existsSync } from "fs";
-import { parseSync } from "subtitle";
-
-const execAsync = promisify(exec);
-
-interface TranscriptSegment {
-  start: number;
-  end: number;
-  text: string;
-}
+import { getTranscript, type Transcript } from "@/lib/transcript";
+import { isLanguageCode } from "@/lib/subtitles";
+import { engagementWords, keywordPattern } from "@/lib/engagement";
+import {
+  parseShortsOptions,
+  resolveRange,
+  DEFAULT_KEYWORD_WEIGHT,
+  type ShortsOptions,
+  type ShortsKeyword,
+} from "@/lib/shorts-options";
+import { transcriptPauses, detectSilences, refineClipBoundaries, type Pause } from "@/lib/clip-boundaries";
+import { mapWithConcurrency } from "@/lib/utils";
+import { getStreamUrl } from "@/lib/ytdlp";
+import { getCachedInfo } from "@/lib/info-cache";
+import { parseMediaUrl } from "@/lib/urls";
+import { platformError } from "@/lib/url-guard";
+import { mediaError, mediaErrorResponse } from "@/lib/errors";
+import type { TranscriptSegment } from "@/lib/shorts-export";
 
 interface Short {
   id: string;
@@ -28,32 +31,60 @@ interface Short {
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
+    const body = await request.json();
 
-    if (!url) {
+    if (!body.url) {
       return Response.json({ error: "URL is required" }, { status: 400 });
     }
+    const url = parseMediaUrl(body.url);
+    if (!url) {
+      return Response.json({ error: "Invalid URL" }, { status: 400 });
+    }
+    const blocked = platformError(url);
+    if (blocked) {
+      return Response.json({ error: blocked }, { status: 403 });
+    }
+    // Transcript language, e.g. "es" or "pt-BR"; "auto" or none uses the video's own
+    const language = body.language && body.language !== "auto" ? body.language : null;
+    if (language !== null && !isLanguageCode(language)) {
+      return Response.json({ error: "Invalid language" }, { status: 400 });
+    }
+    const options = parseShortsOptions(body.options);
+    if ("error" in options) {
+      return Response.json({ error: options.error }, { status: 400 });
+    }
 
     console.log("Starting shorts generation for:", url);
 
     // Step 1: Get video info
-    const videoInfo = await getVideoInfo(url);
-    if (!videoInfo) {
+    const info = await getVideoInfo(url, request.signal);
+    if (!info) {
       return Response.json({ error: "Failed to get video info" }, { status: 500 });
     }
+    const videoInfo = {
+      title: info.title || "Untitled",
+      duration: info.duration || 0,
+      thumbnail: info.thumbnail || "",
+    };
 
     console.log("Video info:", videoInfo);
 
-    // Step 2: Get transcript (from subtitles or generate)
-    const transcript = await getTranscript(url);
-    console.log("Got transcript segments:", transcript.length);
+    // Step 2: Get transcript (from subtitles, speech-to-text or placeholder text)
+    const transcript = await getTranscript(url, info, { language, signal: request.signal });
+    if (!transcript) {
+      return mediaErrorResponse(mediaError("no-transcript"));
+    }
+    console.log(`Got ${transcript.segments.length} transcript segments from ${transcript.source}`);
 
     // Step 3: Analyze transcript and find best clip points
-    const shorts = findBestClips(transcript, videoInfo);
-    console.log("Generated shorts:", shorts.length);
+    const clips = findBestClips(transcript, videoInfo, options);
+    console.log("Generated shorts:", clips.length);
 
     // Get stream URL for the video (used for preview with CSS cropping)
-    const streamUrl = await getStreamUrl(url);
+    const streamUrl = await getPreviewUrl(url, request.signal);
+
+    // Step 4: Move the cuts to pauses, listening to the preview stream's audio
+    const shorts = await refineBoundaries(clips, transcript, streamUrl, videoInfo.duration, options, request.signal);
 
     return Response.json({
       shorts,
@@ -61,6 +92,14 @@ export async function POST(request: NextRequest) {
       streamUrl,
       sourceUrl: url,
       totalDuration: videoInfo.duration,
+      // The settings the clips were picked with, defaults filled in
+      options,
+      // Lets the client say when clips were not picked from what is said
+      transcript: {
+        source: transcript.source,
+        language: transcript.language,
+        synthetic: transcript.synthetic,
+      },
     });
   } catch (error: any) {
     console.error("Shorts generation error:", error);
@@ -74,246 +113,56 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function getVideoInfo(url: string) {
+async function getVideoInfo(url: string, signal: AbortSignal) {
   try {
-    const { stdout } = await execAsync(
-      `yt-dlp --dump-single-json --no-warnings --no-check-certificate "${url}"`
-    );
-    const info = JSON.parse(stdout);
-    return {
-      title: info.title || "Untitled",
-      duration: info.duration || 0,
-      thumbnail: info.thumbnail || "",
-    };
+    const { info } = await getCachedInfo(url, { signal });
+    return info;
   } catch (error) {
+    if (signal.aborted) throw error;
     console.error("Failed to get video info:", error);
     return null;
   }
 }
 
-async function getStreamUrl(url: string): Promise<string> {
+async function getPreviewUrl(url: string, signal: AbortSignal): Promise<string> {
   try {
     // Get 720p video URL for preview (better quality, CSS will handle the crop visually)
-    const { stdout } = await execAsync(
-      `yt-dlp -f "best[height<=720][ext=mp4]/best[height<=720]/best" --get-url --no-warnings --no-check-certificate "${url}"`,
-      { timeout: 30000 }
-    );
-    return stdout.trim();
+    return await getStreamUrl(url, "best[height<=720][ext=mp4]/best[height<=720]/best", { timeout: 30000, signal });
   } catch (error) {
+    if (signal.aborted) throw error;
     console.error("Failed to get stream URL:", error);
     return "";
   }
 }
 
-async function getTranscript(url: string): Promise<TranscriptSegment[]> {
-  const tempDir = join(tmpdir(), `shorts-${Date.now()}`);
-  
-  try {
-    await mkdir(tempDir, { recursive: true });
-
-    // Try to get auto-generated subtitles
-    const subtitlePath = join(tempDir, "subs");
-    
-    try {
-      await execAsync(
-        `yt-dlp --write-auto-sub --sub-lang en --skip-download --sub-format vtt -o "${subtitlePath}" --no-warnings "${url}"`,
-        { timeout: 30000 }
-      );
-
-      // Check if subtitle file was created
-      const vttPath = `${subtitlePath}.en.vtt`;
-      if (existsSync(vttPath)) {
-        const vttContent = await readFile(vttPath, "utf-8");
-        const segments = parseVTT(vttContent);
-        if (segments.length > 0) {
-          console.log("Got subtitles from video");
-          return segments;
-        }
-      }
-    } catch (subError) {
-      console.log("No subtitles available, using fallback");
-    }
-
-    // Fallback: Generate segments based on video duration
-    const videoInfo = await getVideoInfo(url);
-    if (videoInfo) {
-      return generateSegmentsFromDuration(videoInfo.duration);
-    }
-
-    return generateSegmentsFromDuration(300); // Default 5 min
-  } catch (error) {
-    console.error("Transcript error:", error);
-    return generateSegmentsFromDuration(300);
-  } finally {
-    // Cleanup
-    try {
-      await execAsync(`rm -rf "${tempDir}"`);
-    } catch {}
-  }
+interface ScoredKeyword {
+  pattern: RegExp;
+  weight: number;
 }
 
-function cleanVTTText(text: string): string {
-  return text
-    // Remove VTT timing tags like <00:00:00.000>
-    .replace(/<\d{2}:\d{2}:\d{2}\.\d{3}>/g, "")
-    // Remove VTT style tags like <c>, </c>, <b>, etc.
-    .replace(/<\/?[^>]+>/g, "")
-    // Remove >>> and similar markers that YouTube adds
-    .replace(/>{2,}/g, "")
-    .replace(/<{2,}/g, "")
-    // Decode HTML entities
-    .replace(/&gt;/g, ">")
-    .replace(/&lt;/g, "<")
-    .replace(/&amp;/g, "&")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&#x27;/g, "'")
-    .replace(/&nbsp;/g, " ")
-    // Remove [music] and similar markers
-    .replace(/\[.*?\]/g, "")
-    // Clean up whitespace and newlines
-    .replace(/\n/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function parseVTT(vttContent: string): TranscriptSegment[] {
-  // YouTube auto-generated VTT has overlapping progressive cues
-  // Each cue contains previous text + new words
-  // We need to extract only the NEW words from each cue
-  
-  try {
-    const nodes = parseSync(vttContent);
-    const rawCues: { start: number; end: number; text: string }[] = [];
-
-    // First pass: collect all cues with cleaned text
-    for (const node of nodes) {
-      if (node.type === "cue" && node.data) {
-        const cleanText = cleanVTTText(node.data.text);
-        if (cleanText && cleanText.length > 1) {
-          rawCues.push({
-            start: node.data.start / 1000,
-            end: node.data.end / 1000,
-            text: cleanText,
-          });
-        }
-      }
-    }
-
-    if (rawCues.length === 0) return [];
-
-    // Second pass: extract only NEW text from each cue
-    // YouTube VTT shows progressive text where each cue builds on previous
-    const segments: TranscriptSegment[] = [];
-    let lastText = "";
-
-    for (let i = 0; i < rawCues.length; i++) {
-      const cue = rawCues[i];
-      let newText = cue.text;
-
-      // Check if this cue's text starts with or contains the previous text
-      if (lastText && cue.text.toLowerCase().startsWith(lastText.toLowerCase())) {
-        // Extract only the new portion
-        newText = cue.text.substring(lastText.length).trim();
-      } else if (lastText) {
-        // Check if previous text is contained within current (partial overlap)
-        const lastWords = lastText.split(/\s+/);
-        const currentWords = cue.text.split(/\s+/);
-        
-        // Find overlap at the end of lastText and start of currentText
-        let overlapStart = 0;
-        for (let j = Math.min(lastWords.length, currentWords.length); j > 0; j--) {
-          const lastPart = lastWords.slice(-j).join(" ").toLowerCase();
-          const currentPart = currentWords.slice(0, j).join(" ").toLowerCase();
-          if (lastPart === currentPart) {
-            overlapStart = j;
-            break;
-          }
-        }
-        
-        if (overlapStart > 0) {
-          newText = currentWords.slice(overlapStart).join(" ");
-        }
-      }
-
-      // Only add if we have new meaningful text
-      if (newText && newText.length > 1) {
-        segments.push({
-          start: cue.start,
-          end: cue.end,
-          text: newText,
-        });
-      }
-
-      lastText = cue.text;
-    }
-
-    // Third pass: merge very short consecutive segments
-    const mergedSegments: TranscriptSegment[] = [];
-    let currentSegment: TranscriptSegment | null = null;
-
-    for (const seg of segments) {
-      if (!currentSegment) {
-        currentSegment = { ...seg };
-      } else if (seg.start - currentSegment.end < 0.5 && currentSegment.text.split(/\s+/).length < 8) {
-        // Merge if gap is small and current segment is short
-        currentSegment.end = seg.end;
-        currentSegment.text = currentSegment.text + " " + seg.text;
-      } else {
-        mergedSegments.push(currentSegment);
-        currentSegment = { ...seg };
-      }
-    }
-    
-    if (currentSegment) {
-      mergedSegments.push(currentSegment);
-    }
-
-    return mergedSegments;
-  } catch (error) {
-    console.error("VTT parsing error:", error);
-    return [];
-  }
-}
-
-
-
-function generateSegmentsFromDuration(duration: number): TranscriptSegment[] {
-  const segments: TranscriptSegment[] = [];
-  const segmentLength = 15; // 15 second segments
-  
-  const placeholderTexts = [
-    "This is an engaging moment from the video that captures attention.",
-    "Key point being discussed here with important information.",
-    "Interesting content that viewers would want to see.",
-    "Valuable insight shared in this segment of the video.",
-    "Compelling moment that makes for great short-form content.",
-    "Highlight from the video with shareable content.",
-  ];
-
-  for (let i = 0; i < duration; i += segmentLength) {
-    segments.push({
-      start: i,
-      end: Math.min(i + segmentLength, duration),
-      text: placeholderTexts[Math.floor(i / segmentLength) % placeholderTexts.length],
-    });
-  }
-
-  return segments;
+// The language's vocabulary at the default weight, with the request's own
+// keywords added or overriding it, compiled once for every window scored
+function scoringVocabulary(language: string | null, keywords: ShortsKeyword[]): ScoredKeyword[] {
+  const weights = new Map(engagementWords(language).map((word) => [word, DEFAULT_KEYWORD_WEIGHT]));
+  for (const { word, weight } of keywords) weights.set(word, weight);
+  return Array.from(weights, ([word, weight]) => ({ pattern: keywordPattern(word), weight }));
 }
 
 function findBestClips(
-  transcript: TranscriptSegment[],
-  videoInfo: { title: string; duration: number; thumbnail: string }
+  { segments: transcript, synthetic, language }: Transcript,
+  videoInfo: { title: string; duration: number; thumbnail: string },
+  options: ShortsOptions
 ): Short[] {
   const shorts: Short[] = [];
-  const targetDuration = { min: 30, max: 60 };
-  
+  const vocabulary = scoringVocabulary(language, options.keywords);
+  const targetDuration = { min: options.minDuration, max: options.maxDuration };
+  const videoDuration = videoInfo.duration || transcript[transcript.length - 1]?.end || 0;
+  const excluded = options.exclude.map((range) => resolveRange(range, videoDuration));
+
   // Score each potential clip window
   const scoredWindows: { start: number; end: number; text: string; score: number; startIdx: number; endIdx: number }[] = [];
 
-  // Slide through transcript to find good 30-60 second windows
+  // Slide through transcript to find windows of the target length
   for (let i = 0; i < transcript.length; i++) {
     let windowText = "";
     let windowEnd = transcript[i].start;
@@ -324,8 +173,12 @@ function findBestClips(
       
       const windowDuration = windowEnd - transcript[i].start;
       
-      if (windowDuration >= targetDuration.min && windowDuration <= targetDuration.max) {
-        const score = scoreClip(windowText, windowDuration);
+      const isExcluded = excluded.some((range) => transcript[i].start < range.end && windowEnd > range.start);
+
+      if (windowDuration >= targetDuration.min && windowDuration <= targetDuration.max && !isExcluded) {
+        // Placeholder text says nothing about the video, so every window
+        // scores the same and the clips are taken in order
+        const score = synthetic ? 0 : scoreClip(windowText, windowDuration, vocabulary, options.idealDuration);
         scoredWindows.push({
           start: transcript[i].start,
           end: windowEnd,
@@ -340,22 +193,19 @@ function findBestClips(
     }
   }
 
-  // Sort by score and pick top non-overlapping clips
+  // Sort by score and pick the top clips that share at most `overlap` seconds
   scoredWindows.sort((a, b) => b.score - a.score);
   
   const selectedWindows: typeof scoredWindows = [];
   for (const window of scoredWindows) {
     // Check for overlap with already selected
     const overlaps = selectedWindows.some(
-      (selected) =>
-        (window.start >= selected.start && window.start < selected.end) ||
-        (window.end > selected.start && window.end <= selected.end) ||
-        (window.start <= selected.start && window.end >= selected.end)
+      (selected) => Math.min(window.end, selected.end) - Math.max(window.start, selected.start) > options.overlap
     );
     
     if (!overlaps) {
       selectedWindows.push(window);
-      if (selectedWindows.length >= 5) break; // Max 5 shorts
+      if (selectedWindows.length >= options.count) break;
     }
   }
 
@@ -364,23 +214,14 @@ function findBestClips(
 
   // Create Short objects with segments
   selectedWindows.forEach((window, index) => {
-    // Get segments for this clip, adjusted to start from 0
-    const clipSegments = transcript
-      .slice(window.startIdx, window.endIdx + 1)
-      .map(seg => ({
-        start: seg.start - window.start,
-        end: seg.end - window.start,
-        text: seg.text,
-      }));
-
     shorts.push({
       id: `short-${index}`,
       thumbnail: videoInfo.thumbnail,
       title: `${videoInfo.title} - Clip ${index + 1}`,
-      startTime: Math.floor(window.start),
-      endTime: Math.floor(window.end),
+      startTime: window.start,
+      endTime: window.end,
       transcript: window.text.substring(0, 300) + (window.text.length > 300 ? "..." : ""),
-      segments: clipSegments,
+      segments: clipSegments(transcript, window.start, window.end),
       score: window.score,
     });
   });
@@ -388,31 +229,96 @@ function findBestClips(
   return shorts;
 }
 
-function scoreClip(text: string, duration: number): number {
+// The segments said during a clip, with times adjusted to start from 0
+function clipSegments(transcript: TranscriptSegment[], start: number, end: number): TranscriptSegment[] {
+  return transcript
+    .filter((seg) => seg.end > start && seg.start < end)
+    .map(seg => ({
+      start: seg.start - start,
+      end: seg.end - start,
+      text: seg.text,
+      ...(seg.words && {
+        words: seg.words.map((word) => ({
+          start: word.start - start,
+          end: word.end - start,
+          text: word.text,
+        })),
+      }),
+    }));
+}
+
+// Snap each clip's start and end to the nearest sentence end or silence within
+// the tolerance, keeping within the length, exclusion and overlap limits.
+// Silences are detected around each cut only, so just a few seconds of audio
+// are read per clip.
+async function refineBoundaries(
+  shorts: Short[],
+  { segments: transcript, synthetic }: Transcript,
+  mediaUrl: string,
+  videoDuration: number,
+  options: ShortsOptions,
+  signal: AbortSignal
+): Promise<Short[]> {
+  const tolerance = options.boundaryTolerance;
+  if (tolerance <= 0) return shorts;
+
+  // Placeholder text has no sentences to cut at, only the audio does
+  const pauses = synthetic ? [] : transcriptPauses(transcript);
+  const cuts = shorts.flatMap((short) => [short.startTime, short.endTime]);
+  const silences: Pause[][] = [];
+  if (mediaUrl) {
+    await mapWithConcurrency(cuts, 3, async (cut, index) => {
+      try {
+        silences[index] = await detectSilences(mediaUrl, cut - tolerance - 1, cut + tolerance + 1, signal);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn("Silence detection failed:", error);
+      }
+    });
+  }
+
+  const exclude = options.exclude.map((range) => resolveRange(range, videoDuration || transcript[transcript.length - 1]?.end || 0));
+  const refined: Short[] = [];
+  shorts.forEach((short, index) => {
+    const around = [...(silences[index * 2] ?? []), ...(silences[index * 2 + 1] ?? [])];
+    // Earlier clips as already refined, later ones as picked
+    const others = [...refined, ...shorts.slice(index + 1)].map(({ startTime, endTime }) => ({ start: startTime, end: endTime }));
+    const { start, end } = refineClipBoundaries(
+      { start: short.startTime, end: short.endTime },
+      [...pauses, ...around],
+      synthetic ? [] : transcript,
+      {
+        tolerance,
+        videoDuration,
+        minDuration: options.minDuration,
+        maxDuration: options.maxDuration,
+        exclude,
+        others,
+        overlap: options.overlap,
+      }
+    );
+    refined.push({ ...short, startTime: start, endTime: end, segments: clipSegments(transcript, start, end) });
+  });
+  return refined;
+}
+
+function scoreClip(text: string, duration: number, vocabulary: ScoredKeyword[], idealDuration: number): number {
   let score = 0;
   const lowerText = text.toLowerCase();
 
-  // Engagement keywords
-  const engagementWords = [
-    "amazing", "incredible", "important", "secret", "tip", "trick",
-    "how to", "why", "best", "top", "must", "need", "should",
-    "learn", "discover", "reveal", "truth", "fact", "actually",
-    "surprising", "shocking", "crazy", "insane", "game changer",
-  ];
-
-  for (const word of engagementWords) {
-    if (lowerText.includes(word)) score += 10;
+  // Engagement keywords in the transcript's language, plus the request's own
+  for (const { pattern, weight } of vocabulary) {
+    if (pattern.test(lowerText)) score += weight;
   }
 
-  // Prefer clips with questions (engaging)
-  if (text.includes("?")) score += 15;
+  // Prefer clips with questions (engaging), including full-width and Spanish marks
+  if (/[?？¿]/.test(text)) score += 15;
 
-  // Prefer clips with complete sentences
-  const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 10);
+  // Prefer clips with complete sentences (the danda ends sentences in Hindi)
+  const sentences = text.split(/[.!?。！？।]+/).filter((s) => s.trim().length > 10);
   score += sentences.length * 5;
 
-  // Ideal duration bonus (45 seconds is sweet spot)
-  const idealDuration = 45;
+  // Ideal duration bonus
   const durationDiff = Math.abs(duration - idealDuration);
   score += Math.max(0, 20 - durationDiff);
 
@@ -1,8 +1,9 @@
 import { NextRequest } from "next/server";
-import { exec, spawn } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import { spawnProcess } from "@/lib/process";
+import { getStreamUrl } from "@/lib/ytdlp";
+import { errorResponse } from "@/lib/errors";
+import { parseMediaUrl } from "@/lib/urls";
+import { platformError } from "@/lib/url-guard";
 
 // Stream video cropped to 9:16 aspect ratio
 export async function GET(request: NextRequest) {
@@ -16,26 +17,38 @@ export async function GET(request: NextRequest) {
   }
 
   // Decode URL
-  let url = rawUrl;
+  let decodedUrl = rawUrl;
   try {
-    while (url.includes("%")) {
-      const decoded = decodeURIComponent(url);
-      if (decoded === url) break;
-      url = decoded;
+    while (decodedUrl.includes("%")) {
+      const decoded = decodeURIComponent(decodedUrl);
+      if (decoded === decodedUrl) break;
+      decodedUrl = decoded;
     }
   } catch {}
 
+  const url = parseMediaUrl(decodedUrl);
+  if (!url) {
+    return Response.json({ error: "Invalid URL" }, { status: 400 });
+  }
+  const blocked = platformError(url);
+  if (blocked) {
+    return Response.json({ error: blocked }, { status: 403 });
+  }
+  if (!Number.isFinite(start) || (end !== undefined && !(Number.isFinite(end) && end > start))) {
+    return Response.json({ error: "Invalid time range" }, { status: 400 });
+  }
+
   try {
     // Get direct stream URL from yt-dlp (best quality mp4)
-    const { stdout } = await execAsync(
-      `yt-dlp -f "bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best" --get-url --no-warnings "${url}"`,
-      { timeout: 30000 }
-    );
-
-    const directUrl = stdout.trim().split("\n")[0];
-    
-    if (!directUrl) {
-      return Response.json({ error: "Could not get video URL" }, { status: 500 });
+    let directUrl: string;
+    try {
+      directUrl = await getStreamUrl(url, "bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best", {
+        timeout: 30000,
+        signal: request.signal,
+      });
+    } catch (error) {
+      console.error("Failed to get stream URL:", error);
+      return errorResponse(error, "Could not get video URL");
     }
 
     // Build FFmpeg command for streaming cropped video
@@ -62,8 +75,8 @@ export async function GET(request: NextRequest) {
       "pipe:1"                    // Output to stdout
     );
 
-    // Spawn FFmpeg process
-    const ffmpeg = spawn("ffmpeg", ffmpegArgs);
+    // Spawn FFmpeg process (killed if the client goes away)
+    const ffmpeg = spawnProcess("ffmpeg", ffmpegArgs, request.signal);
 
     // Create readable stream from FFmpeg output
     const stream = new ReadableStream({
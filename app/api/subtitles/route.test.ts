@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { GET } from "./route";
+import { HOSTILE_URLS, getRequest } from "../../../test/requests";
+
+describe("GET /api/subtitles", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await GET(getRequest("/api/subtitles", { url, lang: "en" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("rejects a format that is only a prototype key", async () => {
+    const url = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+    const response = await GET(getRequest("/api/subtitles", { url, lang: "en", format: "toString" }));
+    expect(response.status).toBe(400);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+import { mkdir, rm } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { downloadSubtitleTrack } from '@/lib/transcript'
+import { SUBTITLE_FORMATS, listSubtitleTracks, isLanguageCode, parseSubtitleFormat, renderSubtitles } from '@/lib/subtitles'
+import { parseFilenameTemplate, renderFilename, contentDisposition } from '@/lib/filename'
+import { parseMediaUrl } from '@/lib/urls'
+import { platformError } from '@/lib/url-guard'
+import { getCachedInfo, cacheHeaders } from '@/lib/info-cache'
+import { errorResponse } from '@/lib/errors'
+
+// GET /api/subtitles?url=...                       lists the available tracks
+// GET /api/subtitles?url=...&lang=en&format=srt     returns one track (add auto=1 for automatic captions)
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const url = parseMediaUrl(searchParams.get('url'))
+  const lang = searchParams.get('lang')
+
+  if (!url) {
+    return Response.json({ error: 'A valid http(s) URL is required' }, { status: 400 })
+  }
+  const blocked = platformError(url)
+  if (blocked) {
+    return Response.json({ error: blocked }, { status: 403 })
+  }
+
+  if (lang === null) {
+    try {
+      const cached = await getCachedInfo(url, { signal: request.signal })
+      return Response.json({ tracks: listSubtitleTracks(cached.info) }, { headers: cacheHeaders(cached) })
+    } catch (error: any) {
+      console.error('Subtitle list error:', error)
+      return errorResponse(error, 'Failed to list subtitles')
+    }
+  }
+
+  const format = parseSubtitleFormat(searchParams.get('format') || 'srt')
+  if (!isLanguageCode(lang)) {
+    return Response.json({ error: 'Invalid subtitle language' }, { status: 400 })
+  }
+  if (!format) {
+    return Response.json({ error: 'Invalid subtitle format' }, { status: 400 })
+  }
+
+  const automatic = searchParams.get('auto') === '1' || searchParams.get('auto') === 'true'
+  const workDir = join(tmpdir(), `subtitles-${Date.now()}`)
+
+  try {
+    await mkdir(workDir, { recursive: true })
+    const segments = await downloadSubtitleTrack(url, { lang, automatic }, workDir, request.signal)
+
+    if (!segments) {
+      return Response.json({
+        error: 'Subtitle track not found',
+        details: `No ${automatic ? 'automatic captions' : 'subtitles'} in "${lang}" for this video`
+      }, { status: 404 })
+    }
+
+    // Named like the video, with the language before the extension so players pick it up
+    const template = parseFilenameTemplate(searchParams.get('filenameTemplate'))
+    const filename = renderFilename(
+      template,
+      { title: searchParams.get('title'), uploader: searchParams.get('uploader'), id: searchParams.get('id') },
+      `${lang}.${format}`
+    )
+
+    return new Response(renderSubtitles(segments, format), {
+      headers: {
+        'Content-Type': SUBTITLE_FORMATS[format].contentType,
+        'Content-Disposition': contentDisposition(filename),
+      },
+    })
+  } catch (error: any) {
+    if (request.signal.aborted) {
+      return Response.json({ error: 'Download cancelled' }, { status: 499 })
+    }
+    console.error('Subtitle download error:', error)
+    return errorResponse(error, 'Failed to download subtitles')
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { GET, POST } from "./route";
+import { signThumbnailUrl } from "@/lib/url-guard";
+import { HOSTILE_URLS, getRequest, postRequest } from "../../../test/requests";
+
+describe("POST /api/thumbnail", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await POST(postRequest("/api/thumbnail", { url }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/thumbnail", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await GET(getRequest("/api/thumbnail", { url, token: "forged" }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("refuses unsigned thumbnail URLs", async () => {
+    const response = await GET(getRequest("/api/thumbnail", { url: "https://i.ytimg.com/vi/dQw4w9WgXcQ/hq.jpg" }));
+    expect(response.status).toBe(403);
+  });
+
+  it("refuses signed thumbnails on private addresses", async () => {
+    const url = "http://127.0.0.1:9/thumbnail.jpg";
+    const response = await GET(getRequest("/api/thumbnail", { url, token: signThumbnailUrl(url) }));
+    expect(response.status).toBe(403);
+  });
+});
@@ -1,89 +1,56 @@
 import { NextRequest } from 'next/server'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
+import { parseFilenameTemplate, renderFilename, sanitizeFilename, contentDisposition } from '@/lib/filename'
+import { imageExtension } from '@/lib/media'
+import { parseMediaUrl } from '@/lib/urls'
+import { getYtDlpVersion, thumbnailsOf, type Thumbnail } from '@/lib/ytdlp'
+import { getCachedInfo, cacheHeaders } from '@/lib/info-cache'
+import { errorResponse, mediaErrorResponse, toolMissingError } from '@/lib/errors'
+import { platformError, signThumbnailUrl, verifyThumbnailUrl, fetchPublicImage, BlockedUrlError } from '@/lib/url-guard'
 
 export async function POST(request: NextRequest) {
   try {
-    const { url, quality = 'best' } = await request.json()
+    const body = await request.json()
+    const { quality = 'best' } = body
     
-    console.log('Thumbnail request:', { url, quality })
+    console.log('Thumbnail request:', { url: body.url, quality })
 
-    if (!url) {
+    if (!body.url) {
       return Response.json({ error: 'URL is required' }, { status: 400 })
     }
+    const url = parseMediaUrl(body.url)
+    if (!url) {
+      return Response.json({ error: 'Invalid URL', details: 'Please provide a valid http(s) video URL.' }, { status: 400 })
+    }
+    const blocked = platformError(url)
+    if (blocked) {
+      return Response.json({ error: blocked }, { status: 403 })
+    }
 
     // Check if yt-dlp is available
-    try {
-      await execAsync('yt-dlp --version')
-    } catch (error) {
-      console.error('yt-dlp not found:', error)
-      return Response.json({ 
-        error: 'yt-dlp is not installed or not in PATH. Please install it using: pip install yt-dlp',
-        details: 'The yt-dlp binary could not be found on the system.'
-      }, { status: 500 })
+    if (!(await getYtDlpVersion())) {
+      return mediaErrorResponse(toolMissingError('yt-dlp', 'The yt-dlp binary could not be found on the system.'))
     }
 
     try {
       // Get thumbnail URLs using yt-dlp
-      const command = `yt-dlp "${url}" --list-thumbnails --no-warnings --no-check-certificates --geo-bypass`
-      
-      const { stdout, stderr } = await execAsync(command, { 
-        timeout: 30000,
-        maxBuffer: 1024 * 1024 * 5 // 5MB buffer
-      })
-
-      if (stderr) {
-        console.warn('yt-dlp thumbnail warnings:', stderr)
-      }
-
-      // Parse thumbnail list from yt-dlp output
-      const thumbnails = parseThumbnailList(stdout)
+      const cached = await getCachedInfo(url, { signal: request.signal })
+      const thumbnails = thumbnailsOf(cached.info).map(describeThumbnail)
       
       // Select best thumbnail based on quality preference
       const selectedThumbnail = selectThumbnail(thumbnails, quality)
       
       if (!selectedThumbnail) {
-        // Fallback: try to get thumbnail URL from video info
-        const infoCommand = `yt-dlp "${url}" --dump-single-json --no-check-certificates --no-warnings --format best`
-        const { stdout: infoStdout } = await execAsync(infoCommand, { timeout: 30000 })
-        const info = JSON.parse(infoStdout)
-        
-        if (info.thumbnail) {
-          return Response.json({
-            thumbnails: [{
-              url: info.thumbnail,
-              width: 'unknown',
-              height: 'unknown',
-              quality: 'default'
-            }]
-          })
-        }
-        
         throw new Error('No thumbnails found')
       }
 
       return Response.json({
         thumbnails: thumbnails,
         selected: selectedThumbnail
-      })
+      }, { headers: cacheHeaders(cached) })
 
     } catch (execError: any) {
       console.error('yt-dlp thumbnail error:', execError)
-      
-      let userFriendlyError = 'Failed to fetch thumbnails'
-      
-      if (execError.message?.includes('Unsupported URL')) {
-        userFriendlyError = 'This platform does not support thumbnail extraction'
-      } else if (execError.message?.includes('Private video')) {
-        userFriendlyError = 'Cannot access thumbnails from private videos'
-      }
-
-      return Response.json({
-        error: userFriendlyError,
-        details: execError.message
-      }, { status: 500 })
+      return errorResponse(execError, 'Failed to fetch thumbnails')
     }
 
   } catch (error: any) {
@@ -95,51 +62,36 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function parseThumbnailList(output: string): Array<{url: string, width: string, height: string, quality: string}> {
-  const thumbnails: Array<{url: string, width: string, height: string, quality: string}> = []
-  
-  // Parse yt-dlp thumbnail list output
-  const lines = output.split('\n')
+// Most bytes the proxy passes on for one thumbnail
+const MAX_THUMBNAIL_BYTES = 10 * 1024 * 1024
+
+function describeThumbnail(thumbnail: Thumbnail): {url: string, width: string, height: string, quality: string, token: string} {
+  const width = thumbnail.width ? String(thumbnail.width) : 'unknown'
+  const height = thumbnail.height ? String(thumbnail.height) : 'unknown'
   
-  for (const line of lines) {
-    // Look for lines containing thumbnail URLs
-    if (line.includes('http') && (line.includes('.jpg') || line.includes('.png') || line.includes('.webp'))) {
-      const parts = line.trim().split(/\s+/)
-      
-      // Extract URL (usually the last part containing http)
-      const urlPart = parts.find(part => part.startsWith('http'))
-      if (!urlPart) continue
-      
-      // Extract dimensions if available
-      const dimensionMatch = line.match(/(\d+)x(\d+)/)
-      const width = dimensionMatch ? dimensionMatch[1] : 'unknown'
-      const height = dimensionMatch ? dimensionMatch[2] : 'unknown'
-      
-      // Determine quality based on dimensions or URL
-      let quality = 'default'
-      if (urlPart.includes('maxres')) quality = 'maxres'
-      else if (urlPart.includes('hq')) quality = 'high'
-      else if (urlPart.includes('mq')) quality = 'medium'
-      else if (dimensionMatch) {
-        const pixels = parseInt(width) * parseInt(height)
-        if (pixels > 900000) quality = 'maxres'
-        else if (pixels > 200000) quality = 'high'
-        else if (pixels > 50000) quality = 'medium'
-      }
-      
-      thumbnails.push({
-        url: urlPart,
-        width,
-        height,
-        quality
-      })
-    }
+  // Determine quality based on dimensions or URL
+  let quality = 'default'
+  if (thumbnail.url.includes('maxres')) quality = 'maxres'
+  else if (thumbnail.url.includes('hq')) quality = 'high'
+  else if (thumbnail.url.includes('mq')) quality = 'medium'
+  else if (thumbnail.width && thumbnail.height) {
+    const pixels = thumbnail.width * thumbnail.height
+    if (pixels > 900000) quality = 'maxres'
+    else if (pixels > 200000) quality = 'high'
+    else if (pixels > 50000) quality = 'medium'
   }
   
-  return thumbnails
+  return {
+    url: thumbnail.url,
+    width,
+    height,
+    quality,
+    // Lets the GET proxy fetch this URL
+    token: signThumbnailUrl(thumbnail.url)
+  }
 }
 
-function selectThumbnail(thumbnails: Array<{url: string, width: string, height: string, quality: string}>, preferredQuality: string) {
+function selectThumbnail(thumbnails: ReturnType<typeof describeThumbnail>[], preferredQuality: string) {
   if (thumbnails.length === 0) return null
   
   // Quality priority order
@@ -160,35 +112,43 @@ function selectThumbnail(thumbnails: Array<{url: string, width: string, height:
   return selected || thumbnails[0]
 }
 
-// GET endpoint to proxy thumbnail downloads (to avoid CORS issues)
+// GET endpoint to proxy thumbnail downloads (to avoid CORS issues). Only
+// thumbnails listed by the POST endpoint or /api/video-info can be fetched:
+// they come with a token signed by the server.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const thumbnailUrl = searchParams.get('url')
-    const filename = searchParams.get('filename') || 'thumbnail.jpg'
+    const thumbnailUrl = parseMediaUrl(searchParams.get('url'))
+    // Either an explicit filename, or video metadata to fill in the filename template
+    const requestedName = searchParams.get('filename')
     
     if (!thumbnailUrl) {
-      return Response.json({ error: 'Thumbnail URL is required' }, { status: 400 })
+      return Response.json({ error: 'A valid http(s) thumbnail URL is required' }, { status: 400 })
+    }
+    if (!verifyThumbnailUrl(thumbnailUrl, searchParams.get('token'))) {
+      return Response.json({ error: 'Only thumbnails of a known video can be downloaded' }, { status: 403 })
     }
 
     // Fetch the thumbnail
-    const response = await fetch(thumbnailUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
+    const { data, contentType } = await fetchPublicImage(thumbnailUrl, {
+      maxBytes: MAX_THUMBNAIL_BYTES,
+      signal: request.signal,
     })
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch thumbnail: ${response.status}`)
-    }
-
-    const imageBuffer = await response.arrayBuffer()
+    const ext = imageExtension(contentType)
+    const filename = requestedName
+      ? `${sanitizeFilename(requestedName.replace(/\.[a-z0-9]+$/i, ''))}.${ext}`
+      : renderFilename(parseFilenameTemplate(searchParams.get('filenameTemplate')), {
+          title: searchParams.get('title') || 'thumbnail',
+          uploader: searchParams.get('uploader'),
+          id: searchParams.get('id'),
+        }, ext)
     
-    return new Response(imageBuffer, {
+    return new Response(data, {
       headers: {
-        'Content-Type': response.headers.get('content-type') || 'image/jpeg',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': imageBuffer.byteLength.toString(),
+        'Content-Type': contentType,
+        'Content-Disposition': contentDisposition(filename),
+        'Content-Length': data.byteLength.toString(),
         'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
       },
     })
@@ -198,6 +158,6 @@ export async function GET(request: NextRequest) {
     return Response.json({ 
       error: 'Failed to download thumbnail',
       details: error.message 
-    }, { status: 500 })
+    }, { status: error instanceof BlockedUrlError ? 403 : 502 })
   }
-}
\ No newline at end of file
+}
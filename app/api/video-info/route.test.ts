@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { POST } from "./route";
+import { HOSTILE_URLS, postRequest } from "../../../test/requests";
+
+describe("POST /api/video-info", () => {
+  it.each(HOSTILE_URLS)("rejects %j without running anything", async (url) => {
+    const response = await POST(postRequest("/api/video-info", { url }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
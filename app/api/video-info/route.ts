@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
+import { formatFileSize, normalizeFormats } from '@/lib/formats'
+import { isPlaylistInfo } from '@/lib/playlist'
+import { normalizeUrl } from '@/lib/urls'
+import { getYtDlpVersion, listFormats, type Format } from '@/lib/ytdlp'
+import { getCachedInfo, cacheHeaders } from '@/lib/info-cache'
+import { classifyError, mediaErrorResponse, toolMissingError } from '@/lib/errors'
+import { platformError, signThumbnailUrl } from '@/lib/url-guard'
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,56 +29,41 @@ export async function POST(request: NextRequest) {
       s = s.replace(/%3C/gi, '<').replace(/%3E/gi, '>')
       // If it still contains angle bracket characters it's likely a placeholder
       if (s.includes('<') || s.includes('>')) return null
-      return s
+      // yt-dlp gets the canonical form, without tracking parameters or a start time
+      return normalizeUrl(s)?.canonicalUrl ?? null
     }
 
     const cleanUrl = sanitizeUrl(url)
     if (!cleanUrl) {
-      return NextResponse.json({ error: 'Invalid URL', details: 'Please provide a valid video URL (remove angle brackets or placeholders like <id>).' }, { status: 400 })
+      return NextResponse.json({ error: 'Invalid URL', details: 'Please provide a valid http(s) video URL (remove angle brackets or placeholders like <id>).' }, { status: 400 })
+    }
+    const blocked = platformError(cleanUrl)
+    if (blocked) {
+      return NextResponse.json({ error: blocked }, { status: 403 })
     }
 
     // Check if yt-dlp is available
-    try {
-      const { stdout } = await execAsync('yt-dlp --version')
-      console.log('yt-dlp version:', stdout.trim())
-    } catch (error) {
-      console.error('yt-dlp not found:', error)
-      return NextResponse.json({ 
-        error: 'yt-dlp is not installed or not in PATH. Please install it using: pip install yt-dlp',
-        details: 'The yt-dlp binary could not be found on the system.'
-      }, { status: 500 })
+    if (!(await getYtDlpVersion())) {
+      return mediaErrorResponse(toolMissingError('yt-dlp', 'The yt-dlp binary could not be found on the system.'))
     }
 
-  // Use dump-single-json without forcing a format. Some videos (DASH / separate audio/video)
-  // don't expose a `best` single format and forcing `--format best` can make yt-dlp exit
-  // with an error. Let yt-dlp report all formats and pick the best client-side.
-  // Add --no-config to avoid using any local/global yt-dlp config that may force formats
-  const command = `yt-dlp --no-config "${cleanUrl}" --dump-single-json --no-check-certificates --no-warnings --geo-bypass --ignore-errors --user-agent "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"`
-    
-    console.log('Executing command:', command)
+    console.log('Running yt-dlp for:', cleanUrl)
 
     try {
-      const { stdout, stderr } = await execAsync(command, { 
-        timeout: 45000, // 45 second timeout for better platform support
-        maxBuffer: 1024 * 1024 * 20 // 20MB buffer for large metadata
-      })
-
-      if (stderr) {
-        console.warn('yt-dlp warnings:', stderr)
-      }
-
-      // Defensive parse: yt-dlp may print 'null' on failure; ensure we got an object
-      let info: any = null
-      try {
-        info = JSON.parse(stdout)
-      } catch (parseErr) {
-        console.error('Failed to parse yt-dlp output:', parseErr, 'stdout:', stdout)
-        return NextResponse.json({ error: 'Failed to parse video metadata', details: 'yt-dlp returned invalid JSON' }, { status: 500 })
-      }
-
-      if (!info) {
-        console.error('yt-dlp returned no metadata (null stdout)')
-        return NextResponse.json({ error: 'No metadata returned', details: 'yt-dlp returned no metadata for this URL' }, { status: 500 })
+      // No format is forced: some videos (DASH / separate audio/video) don't expose a
+      // `best` single format, so yt-dlp reports all formats and the best is picked
+      // client-side. Local/global yt-dlp config that may force formats is ignored.
+      // Flat playlist listing keeps playlist and channel URLs from extracting every video; a
+      // video opened from within a playlist (watch?v=...&list=...) is treated as the video.
+      // Metadata yt-dlp printed before exiting with an error is used as well.
+      // Other routes asking about the same video share the result.
+      const cached = await getCachedInfo(cleanUrl, { signal: request.signal })
+      const { info } = cached
+      const headers = cacheHeaders(cached)
+
+      // Playlists and channels are listed by /api/playlist instead
+      if (isPlaylistInfo(info)) {
+        return NextResponse.json({ type: 'playlist', title: info.title || null }, { headers })
       }
       console.log('Video info retrieved:', {
         title: info.title,
@@ -91,7 +79,7 @@ export async function POST(request: NextRequest) {
       const formats = info.formats || []
 
       // Choose the format with the largest known filesize, else largest tbr/bitrate, else the first
-      const bestFormat = formats.reduce((best: any, f: any) => {
+      const bestFormat = formats.reduce<Format | undefined>((best, f) => {
         if (!best) return f
         const fSize = Number(f.filesize || f.filesize_approx || 0) || Number(f.tbr || f.bitrate || 0) || 0
         const bestSize = Number(best.filesize || best.filesize_approx || 0) || Number(best.tbr || best.bitrate || 0) || 0
@@ -108,133 +96,49 @@ export async function POST(request: NextRequest) {
           const bytes = (Number(tbr) * 1000 / 8) * Number(info.duration)
           return formatFileSize(bytes)
         }
-        return estimateSizeFromDuration(info.duration)
+        return estimateSizeFromDuration(info.duration ?? 0)
       })()
 
+      const thumbnail = info.thumbnail || info.thumbnails?.[0]?.url
       return NextResponse.json({
-        thumbnail: info.thumbnail || info.thumbnails?.[0]?.url || generateDefaultThumbnail(platform),
+        thumbnail: thumbnail || generateDefaultThumbnail(platform),
+        // Lets /api/thumbnail proxy the download of this thumbnail
+        thumbnailToken: thumbnail ? signThumbnailUrl(thumbnail) : null,
         title: info.title || 'Untitled Video',
-        duration: formatDuration(info.duration),
+        id: info.id || null,
+        duration: formatDuration(info.duration ?? 0),
         platform: platform,
         fileSize: estimatedSize,
-        formats: info.formats?.slice(0, 15).map((f: any) => ({
-          id: f.format_id,
-          ext: f.ext,
-          quality: f.format_note || f.height || f.resolution || f.quality || 'unknown',
-          filesize: f.filesize,
-        })) || [],
+        formats: normalizeFormats(info.formats, info.duration),
         // Additional metadata
         uploader: info.uploader || info.channel || 'Unknown',
         uploadDate: info.upload_date ? formatUploadDate(info.upload_date) : null,
         viewCount: info.view_count ? formatViewCount(info.view_count) : null,
         likeCount: info.like_count ? formatNumber(info.like_count) : null,
-      })
+      }, { headers })
 
     } catch (execError: any) {
       console.error('yt-dlp execution error:', execError)
 
-      // If yt-dlp exited with a non-zero code but printed JSON to stdout, try to parse
-      const maybeStdout = execError?.stdout
-      if (typeof maybeStdout === 'string' && maybeStdout.trim() && maybeStdout.trim() !== 'null') {
-        try {
-          const info = JSON.parse(maybeStdout)
-          // build a best-effort response using the same logic as above
-          const platform = detectPlatform(cleanUrl, info.extractor)
-          const formats = info.formats || []
-          const bestFormat = formats.reduce((best: any, f: any) => {
-            if (!best) return f
-            const fSize = Number(f.filesize || f.filesize_approx || 0) || Number(f.tbr || f.bitrate || 0) || 0
-            const bestSize = Number(best.filesize || best.filesize_approx || 0) || Number(best.tbr || best.bitrate || 0) || 0
-            return fSize > bestSize ? f : best
-          }, formats[0])
-
-          const estimatedSize = (() => {
-            const fs = bestFormat?.filesize || bestFormat?.filesize_approx
-            if (fs) return formatFileSize(Number(fs))
-            const tbr = bestFormat?.tbr || bestFormat?.bitrate
-            if (tbr && info.duration) {
-              const bytes = (Number(tbr) * 1000 / 8) * Number(info.duration)
-              return formatFileSize(bytes)
-            }
-            return estimateSizeFromDuration(info.duration)
-          })()
-
-          return NextResponse.json({
-            thumbnail: info.thumbnail || info.thumbnails?.[0]?.url || generateDefaultThumbnail(platform),
-            title: info.title || 'Untitled Video',
-            duration: formatDuration(info.duration),
-            platform: platform,
-            fileSize: estimatedSize,
-            formats: info.formats?.slice(0, 15).map((f: any) => ({
-              id: f.format_id,
-              ext: f.ext,
-              quality: f.format_note || f.height || f.resolution || f.quality || 'unknown',
-              filesize: f.filesize,
-            })) || [],
-            uploader: info.uploader || info.channel || 'Unknown',
-            uploadDate: info.upload_date ? formatUploadDate(info.upload_date) : null,
-            viewCount: info.view_count ? formatViewCount(info.view_count) : null,
-            likeCount: info.like_count ? formatNumber(info.like_count) : null,
-          })
-        } catch (parseErr) {
-          console.warn('Could not parse JSON from execError.stdout', parseErr)
-          // fall through to friendly error handling below
-        }
-      }
-
-      if (execError.code === 'ENOENT') {
-        return NextResponse.json({ 
-          error: 'yt-dlp not found in PATH',
-          details: 'Please install yt-dlp: pip install yt-dlp'
-        }, { status: 500 })
-      }
-      // Enhanced error handling for different platforms and known yt-dlp messages
-      let userFriendlyError = 'Failed to fetch video information'
-      let details = execError.message || 'Unknown error occurred'
-
-      const stderr = execError.stderr || ''
-      if (stderr.includes('Requested format is not available')) {
-        userFriendlyError = 'Requested format is not available'
-        details = 'yt-dlp reported that the requested format is not available for this URL.'
-
+      const failure = classifyError(execError)
+      if (failure.code === 'format-unavailable') {
         // Try to fetch available formats to help the client pick a valid one
         try {
-          const { stdout: formatsOut } = await execAsync(`yt-dlp "${url}" --list-formats`, {
-            timeout: 20000,
-            maxBuffer: 1024 * 1024 * 5,
-          })
+          const formatsList = await listFormats(cleanUrl, { timeout: 20000 })
 
           return NextResponse.json({
-            error: userFriendlyError,
-            details,
-            formatsList: formatsOut || 'No formats returned',
-          }, { status: 422 })
+            error: failure.error,
+            code: failure.code,
+            remediation: failure.remediation,
+            details: failure.details,
+            formatsList,
+          }, { status: failure.status })
         } catch (listErr: any) {
-          console.warn('Failed to list formats for URL:', url, listErr)
-          return NextResponse.json({ error: userFriendlyError, details: details + ' Also failed to list formats.' }, { status: 422 })
+          console.warn('Failed to list formats for URL:', cleanUrl, listErr)
         }
       }
 
-      if (execError.message?.includes('Private video')) {
-        userFriendlyError = 'This video is private and cannot be downloaded'
-      } else if (execError.message?.includes('Video unavailable')) {
-        userFriendlyError = 'Video is unavailable or has been removed'
-      } else if (execError.message?.includes('Unsupported URL')) {
-        userFriendlyError = 'This platform or URL format is not supported'
-      } else if (execError.message?.includes('Sign in to confirm')) {
-        userFriendlyError = 'This video requires authentication to view'
-      } else if (execError.message?.includes('blocked')) {
-        userFriendlyError = 'Content is geo-blocked or restricted'
-      } else if (execError.message?.includes('timeout')) {
-        userFriendlyError = 'Request timed out - the platform might be slow or unavailable'
-      }
-
-      // Return 400 for unsupported/invalid URL formats so clients can correct input
-      const statusCode = userFriendlyError === 'This platform or URL format is not supported' ? 400 : 500
-      return NextResponse.json({
-        error: userFriendlyError,
-        details: details
-      }, { status: statusCode })
+      return mediaErrorResponse(failure, 'Failed to fetch video information')
     }
 
   } catch (error: any) {
@@ -297,15 +201,6 @@ function padZero(num: number): string {
   return num.toString().padStart(2, '0')
 }
 
-function formatFileSize(bytes: number): string {
-  if (!bytes) return 'Unknown size'
-  
-  const sizes = ['B', 'KB', 'MB', 'GB']
-  const i = Math.floor(Math.log(bytes) / Math.log(1024))
-  
-  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + ' ' + sizes[i]
-}
-
 function estimateSizeFromDuration(duration: number): string {
   if (!duration) return 'Unknown size'
   
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { spawn } from "child_process";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { HOSTILE_URLS, postRequest } from "../../../test/requests";
+
+describe("POST /api/zip", () => {
+  it.each(HOSTILE_URLS)("rejects a thumbnail at %j", async (url) => {
+    const items = [{ type: "thumbnail", url, token: "forged" }];
+    const response = await POST(postRequest("/api/zip", { items }));
+    expect([400, 403]).toContain(response.status);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["plain text", { "Content-Type": "text/plain" }, "items"],
+    ["no body", {}, undefined],
+    ["a form without a request field", { "Content-Type": "application/x-www-form-urlencoded" }, "name=clips"],
+  ])("rejects %s with a 400", async (_, headers: Record<string, string>, body) => {
+    const request = new NextRequest("http://localhost:3000/api/zip", {
+      method: "POST",
+      headers: { ...headers, "Sec-Fetch-Site": "same-origin" },
+      body,
+    });
+    const response = await POST(request);
+    expect(response.status).toBe(400);
+  });
+
+  // A form post as a browser sends it, with `headers` saying where it came from
+  const form = (headers: Record<string, string>) =>
+    new NextRequest("http://localhost:3000/api/zip", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Host: "localhost:3000", ...headers },
+      body: new URLSearchParams({
+        request: JSON.stringify({ items: [{ type: "job", id: "unknown" }] }),
+      }).toString(),
+    });
+
+  it.each([
+    ["Sec-Fetch-Site cross-site", { "Sec-Fetch-Site": "cross-site" }],
+    ["Sec-Fetch-Site same-site", { "Sec-Fetch-Site": "same-site" }],
+    ["a foreign Origin", { Origin: "https://evil.example" }],
+    ["neither header", {}],
+  ])("refuses a form with %s", async (_, headers: Record<string, string>) => {
+    const response = await POST(form(headers));
+    expect(response.status).toBe(403);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["Sec-Fetch-Site same-origin", { "Sec-Fetch-Site": "same-origin" }],
+    ["the app's Origin", { Origin: "http://localhost:3000" }],
+  ])("reads a form with %s", async (_, headers: Record<string, string>) => {
+    // Past the origin check, the unknown job is what gets refused
+    const response = await POST(form(headers));
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server'
+import { parseArchiveRequest, archiveEntries } from '@/lib/archive'
+import { getJobFile } from '@/lib/jobs'
+import { createZipStream } from '@/lib/zip'
+import { renderFilename, contentDisposition } from '@/lib/filename'
+
+// Stream a ZIP of finished jobs, videos, clips, shorts and thumbnails, with a
+// manifest.json describing each file. Items that are downloaded on the fly are
+// fetched while the archive is sent, so nothing is buffered in full.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isJson(request) && !isSameOriginForm(request)) {
+      return Response.json({ error: 'Forms from other sites cannot start downloads' }, { status: 403 })
+    }
+    const archive = parseArchiveRequest(await readBody(request))
+    if ('error' in archive) {
+      return Response.json({ error: archive.error }, { status: 400 })
+    }
+
+    // Jobs have to be finished before the archive starts, there is no way to report it later
+    for (const item of archive.items) {
+      if (item.type === 'job' && !getJobFile(item.id)) {
+        return Response.json({
+          error: 'Job is not finished or no longer available',
+          details: `Job ${item.id}`
+        }, { status: 409 })
+      }
+    }
+
+    const filename = renderFilename('{title}.{ext}', { title: archive.name || 'download' }, 'zip')
+
+    return new Response(createZipStream(archiveEntries(archive, request.signal)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': contentDisposition(filename),
+      },
+    })
+  } catch (error: any) {
+    console.error('ZIP API error:', error)
+    return Response.json({
+      error: 'Internal server error',
+      details: error.message
+    }, { status: 500 })
+  }
+}
+
+// Browsers only save a response straight to disk when it comes from a
+// navigation, so besides JSON the request is accepted as a submitted form
+// whose "request" field holds the JSON
+async function readBody(request: NextRequest): Promise<unknown> {
+  if (isJson(request)) {
+    return request.json()
+  }
+  // A body that is neither (plain text, nothing at all) makes formData() throw
+  try {
+    const form = await request.formData()
+    return JSON.parse(String(form.get('request') ?? ''))
+  } catch {
+    return null
+  }
+}
+
+function isJson(request: NextRequest): boolean {
+  return !!request.headers.get('content-type')?.includes('application/json')
+}
+
+// Any page can submit a form here, unlike a JSON fetch which the browser only
+// sends cross-origin after a CORS preflight, so forms must come from this app.
+// Browsers send Sec-Fetch-Site, or at least Origin, with every form POST.
+function isSameOriginForm(request: NextRequest): boolean {
+  const fetchSite = request.headers.get('sec-fetch-site')
+  if (fetchSite) return fetchSite === 'same-origin'
+  const origin = request.headers.get('origin')
+  if (!origin) return false
+  const host = request.headers.get('x-forwarded-host') || request.headers.get('host')
+  try {
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
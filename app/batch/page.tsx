@@ -0,0 +1,395 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, Upload, Download } from "lucide-react";
+import { FormatSelector, AUDIO_FORMAT_ID } from "../components/FormatSelector";
+import { JobProgressBar } from "../components/JobProgressBar";
+import { defaultAudioOptions, type AudioOptions } from "../lib/audio";
+import { formatForHeight } from "../lib/formats";
+import { defaultVideoOptions, type VideoOptions } from "../lib/container";
+import { runJob, downloadJobFile } from "../lib/jobs-client";
+import type { JobProgress } from "../lib/jobs";
+import { parseUrlList, MAX_BATCH_URLS } from "../lib/urls";
+import { mapWithConcurrency } from "../lib/utils";
+
+// Metadata requests each run yt-dlp on the server, so only a few at a time
+const METADATA_CONCURRENCY = 4;
+
+type RowStatus = "invalid" | "queued" | "loading" | "ready" | "failed" | "downloading" | "done";
+
+interface BatchRow {
+  url: string;
+  status: RowStatus;
+  title: string | null;
+  duration: string | null;
+  thumbnail: string | null;
+  error: string | null;
+  progress: JobProgress | null;
+}
+
+const statusLabels: Record<RowStatus, string> = {
+  invalid: "not a supported link",
+  queued: "waiting",
+  loading: "checking...",
+  ready: "ready",
+  failed: "failed",
+  downloading: "downloading",
+  done: "downloaded",
+};
+
+export default function BatchPage() {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedFormat, setSelectedFormat] = useState(formatForHeight(720));
+  const [audioOptions, setAudioOptions] = useState<AudioOptions>(defaultAudioOptions);
+  const [videoOptions, setVideoOptions] = useState<VideoOptions>(defaultVideoOptions);
+  const [embedMetadata, setEmbedMetadata] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  const [zipProgress, setZipProgress] = useState<JobProgress | null>(null);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const checkAbortRef = useRef<AbortController | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+  const rowAbortRef = useRef<AbortController | null>(null);
+
+  // Stop metadata requests and server-side jobs when leaving the page
+  useEffect(
+    () => () => {
+      checkAbortRef.current?.abort();
+      downloadAbortRef.current?.abort();
+      rowAbortRef.current?.abort();
+      rowAbortRef.current = null;
+    },
+    []
+  );
+
+  const updateRow = (index: number, changes: Partial<BatchRow>) =>
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const loadFile = async (file: File) => {
+    const content = await file.text();
+    setText((current) => (current.trim() ? `${current.trim()}\n${content}` : content));
+  };
+
+  const checkLinks = async () => {
+    checkAbortRef.current?.abort();
+    const controller = new AbortController();
+    checkAbortRef.current = controller;
+
+    const parsed = parseUrlList(text);
+    setNotice(
+      parsed.length > MAX_BATCH_URLS
+        ? `Only the first ${MAX_BATCH_URLS} of ${parsed.length} links are used`
+        : parsed.length === 0
+        ? "No links found"
+        : null
+    );
+
+    const initial: BatchRow[] = parsed.slice(0, MAX_BATCH_URLS).map(({ url, valid }) => ({
+      url,
+      status: valid ? "queued" : "invalid",
+      title: null,
+      duration: null,
+      thumbnail: null,
+      error: null,
+      progress: null,
+    }));
+    setRows(initial);
+    setChecking(true);
+
+    const toCheck = initial.map((row, index) => ({ row, index })).filter(({ row }) => row.status === "queued");
+
+    await mapWithConcurrency(toCheck, METADATA_CONCURRENCY, async ({ row, index }) => {
+      if (controller.signal.aborted) return;
+      updateRow(index, { status: "loading" });
+      try {
+        const response = await fetch("/api/video-info", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: row.url }),
+          signal: controller.signal,
+        });
+        const info = await response.json();
+        // A newer check replaced the rows
+        if (controller.signal.aborted) return;
+
+        if (!response.ok) {
+          updateRow(index, { status: "failed", error: info.error || "Failed to fetch video info" });
+        } else if (info.type === "playlist") {
+          updateRow(index, { status: "failed", error: "is a playlist, open it on its own to pick videos" });
+        } else {
+          updateRow(index, {
+            status: "ready",
+            title: info.title,
+            duration: info.duration,
+            thumbnail: info.thumbnail,
+          });
+        }
+      } catch (err: any) {
+        if (err.name !== "AbortError") {
+          updateRow(index, { status: "failed", error: "Failed to fetch video info" });
+        }
+      }
+    });
+
+    if (checkAbortRef.current === controller) {
+      checkAbortRef.current = null;
+      setChecking(false);
+    }
+  };
+
+  const isAudio = selectedFormat === AUDIO_FORMAT_ID;
+  const downloadOptions = {
+    format: selectedFormat,
+    audio: isAudio ? audioOptions : undefined,
+    video: isAudio ? undefined : videoOptions,
+    embedMetadata,
+  };
+
+  const downloadRow = async (index: number) => {
+    const row = rows[index];
+    // Shared by all single-row downloads, so leaving the page cancels them together
+    const controller = (rowAbortRef.current ??= new AbortController());
+    updateRow(index, { status: "downloading", error: null, progress: null });
+    try {
+      const job = await runJob(
+        { type: "download", url: row.url, ...downloadOptions },
+        (snapshot) => updateRow(index, { progress: snapshot.progress }),
+        controller.signal
+      );
+      downloadJobFile(job);
+      updateRow(index, { status: "done", progress: null });
+    } catch (err: any) {
+      if (err.name === "AbortError") return;
+      updateRow(index, { status: "failed", error: err.message || "Download failed", progress: null });
+    }
+  };
+
+  const downloadable = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.status === "ready" || row.status === "done");
+
+  // All checked links in one batch job, delivered as a single ZIP
+  const downloadZip = async () => {
+    if (downloadable.length === 0) return;
+
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setZipping(true);
+    setZipError(null);
+    setZipProgress(null);
+    downloadable.forEach(({ index }) => updateRow(index, { status: "downloading", error: null }));
+
+    try {
+      const job = await runJob(
+        {
+          type: "batch",
+          name: "batch download",
+          items: downloadable.map(({ row }) => ({ url: row.url, title: row.title ?? undefined })),
+          ...downloadOptions,
+        },
+        (snapshot) => {
+          setZipProgress(snapshot.progress);
+          snapshot.items?.forEach((item, i) => {
+            const target = downloadable[i];
+            if (!target) return;
+            if (item.status === "completed") updateRow(target.index, { status: "done" });
+            else if (item.status === "failed") updateRow(target.index, { status: "failed", error: item.error });
+          });
+        },
+        controller.signal
+      );
+      downloadJobFile(job);
+    } catch (err: any) {
+      if (err.name !== "AbortError") setZipError(err.message || "Download failed");
+      // Items that never finished go back to being downloadable
+      setRows((current) => current.map((row) => (row.status === "downloading" ? { ...row, status: "ready" } : row)));
+    } finally {
+      downloadAbortRef.current = null;
+      setZipping(false);
+      setZipProgress(null);
+    }
+  };
+
+  const counts = {
+    ready: rows.filter((row) => row.status === "ready" || row.status === "done").length,
+    failed: rows.filter((row) => row.status === "failed" || row.status === "invalid").length,
+  };
+
+  return (
+    <main className="min-h-dvh">
+      {/* Back button */}
+      <div className="border-b border-dashed">
+        <div className="max-w-4xl mx-auto px-4 py-3">
+          <button
+            onClick={() => router.push("/")}
+            className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-xl md:text-2xl font-medium">Batch download</h1>
+          <p className="text-sm text-muted-foreground">
+            Paste up to {MAX_BATCH_URLS} links, one per line, or load a .txt or .csv file.
+          </p>
+        </div>
+
+        {/* Link input */}
+        <div className="border border-dashed overflow-hidden">
+          <div className="p-3 border-b border-dashed bg-card flex items-center justify-between">
+            <span className="text-sm font-medium">links</span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <Upload className="w-3 h-3" />
+              load file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.csv,text/plain,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadFile(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+          <div className="p-4 space-y-3">
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={8}
+              placeholder={"https://www.youtube.com/watch?v=...\nhttps://vimeo.com/..."}
+              className="w-full px-3 py-2 text-sm font-mono border border-dashed bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-foreground/20"
+            />
+            <button
+              onClick={checkLinks}
+              disabled={!text.trim() || zipping}
+              className="w-full py-2 px-6 border border-dashed text-sm font-medium bg-foreground text-background hover:bg-foreground/90 transition-colors disabled:opacity-50"
+            >
+              {checking ? "checking links..." : "check links"}
+            </button>
+            {notice && <p className="text-xs text-muted-foreground">{notice}</p>}
+          </div>
+        </div>
+
+        {/* Results */}
+        {rows.length > 0 && (
+          <div className="border border-dashed overflow-hidden">
+            <div className="p-3 border-b border-dashed bg-card flex items-center justify-between">
+              <span className="text-sm font-medium">{rows.length} links</span>
+              <span className="text-xs text-muted-foreground">
+                {counts.ready} ready{counts.failed > 0 && ` • ${counts.failed} failed`}
+              </span>
+            </div>
+            <div className="max-h-[28rem] overflow-y-auto divide-y divide-dashed">
+              {rows.map((row, index) => (
+                <div key={row.url} className="flex items-center gap-3 p-2">
+                  {row.thumbnail ? (
+                    <img src={row.thumbnail} alt="" className="w-20 aspect-video object-cover shrink-0" />
+                  ) : (
+                    <span className="w-20 aspect-video bg-muted shrink-0 flex items-center justify-center">
+                      {row.status === "loading" && <Loader2 className="w-4 h-4 animate-spin" />}
+                    </span>
+                  )}
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <span className="block text-sm truncate">{row.title || row.url}</span>
+                    <span className="block text-xs text-muted-foreground truncate">
+                      {row.duration && `${row.duration} • `}
+                      <span
+                        className={row.status === "failed" || row.status === "invalid" ? "text-red-500" : ""}
+                      >
+                        {row.status === "failed" && row.error ? row.error : statusLabels[row.status]}
+                      </span>
+                    </span>
+                    {row.status === "downloading" && row.progress && <JobProgressBar progress={row.progress} />}
+                  </div>
+                  {(row.status === "ready" || row.status === "done" || (row.status === "failed" && row.title)) && (
+                    <button
+                      onClick={() => downloadRow(index)}
+                      disabled={zipping}
+                      className="p-2 border border-dashed hover:bg-muted transition-colors disabled:opacity-50"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            {/* Format Selector */}
+            <FormatSelector
+              selected={selectedFormat}
+              onChange={setSelectedFormat}
+              audio={audioOptions}
+              onAudioChange={setAudioOptions}
+              video={videoOptions}
+              onVideoChange={setVideoOptions}
+            />
+
+            {/* Metadata toggle */}
+            <button
+              onClick={() => setEmbedMetadata(!embedMetadata)}
+              className={`w-full flex items-center justify-between p-3 border border-dashed text-sm transition-colors ${
+                embedMetadata ? "bg-foreground text-background" : "bg-background hover:bg-muted"
+              }`}
+            >
+              <span>embed metadata, chapters and cover art</span>
+              <span className="text-xs">{embedMetadata ? "on" : "off"}</span>
+            </button>
+
+            {/* ZIP Download */}
+            <div className="space-y-3">
+              <button
+                onClick={downloadZip}
+                disabled={zipping || checking || downloadable.length === 0}
+                className={`w-full py-3 px-6 border border-dashed font-medium transition-colors ${
+                  zipping || checking || downloadable.length === 0
+                    ? "bg-muted cursor-not-allowed text-muted-foreground"
+                    : "bg-foreground text-background hover:bg-foreground/90"
+                }`}
+              >
+                {zipping ? "downloading..." : `download ${downloadable.length} as ZIP`}
+              </button>
+
+              {zipping && zipProgress && <JobProgressBar progress={zipProgress} />}
+
+              {zipping && (
+                <button
+                  onClick={() => downloadAbortRef.current?.abort()}
+                  className="w-full py-2 px-6 border border-dashed text-sm hover:bg-muted transition-colors"
+                >
+                  cancel
+                </button>
+              )}
+
+              {zipError && (
+                <div className="p-3 border border-dashed border-red-500 bg-red-500/10">
+                  <p className="text-sm text-red-500">{zipError}</p>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
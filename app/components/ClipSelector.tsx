@@ -1,22 +1,33 @@
 "use client";
 
 import React, { useState } from "react";
+import type { CutMode } from "@/lib/clip";
+import { parseTimeToSeconds } from "@/lib/utils";
 
 interface ClipSelectorProps {
   duration: string;
   startTime: string;
   endTime: string;
+  cutMode: CutMode;
   onStartTimeChange: (time: string) => void;
   onEndTimeChange: (time: string) => void;
+  onCutModeChange: (mode: CutMode) => void;
   onReset: () => void;
 }
 
+const cutModes: { id: CutMode; label: string; description: string }[] = [
+  { id: "fast", label: "fast", description: "cuts on nearest keyframe" },
+  { id: "accurate", label: "accurate", description: "frame-exact, re-encodes edges" },
+];
+
 export function ClipSelector({
   duration,
   startTime,
   endTime,
+  cutMode,
   onStartTimeChange,
   onEndTimeChange,
+  onCutModeChange,
   onReset,
 }: ClipSelectorProps) {
   const [enabled, setEnabled] = useState(false);
@@ -37,11 +48,8 @@ export function ClipSelector({
     setEnabled(hasClipValues);
   }, [hasClipValues]);
 
-  const validateTime = (time: string): boolean => {
-    if (!time) return true;
-    const parts = time.split(":");
-    return parts.every((part) => !isNaN(Number(part)));
-  };
+  // Same rule as the server: seconds, mm:ss or hh:mm:ss
+  const validateTime = (time: string): boolean => !time || parseTimeToSeconds(time) !== null;
 
   return (
     <div className="border border-dashed overflow-hidden">
@@ -104,6 +112,32 @@ export function ClipSelector({
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-1">cut mode</label>
+            <div className="grid grid-cols-2 gap-2">
+              {cutModes.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => onCutModeChange(mode.id)}
+                  className={`p-2 border border-dashed text-sm text-left transition-colors ${
+                    cutMode === mode.id
+                      ? "bg-foreground text-background"
+                      : "bg-background hover:bg-muted"
+                  }`}
+                >
+                  <div className="font-medium">{mode.label}</div>
+                  <div
+                    className={`text-xs ${
+                      cutMode === mode.id ? "text-background/70" : "text-muted-foreground"
+                    }`}
+                  >
+                    {mode.description}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="flex gap-2">
             <button
               onClick={() => {
@@ -1,61 +1,75 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useRef, useEffect } from 'react'
+import type { JobProgress } from '@/lib/jobs'
+import { runJob, downloadJobFile } from '@/lib/jobs-client'
+import type { CutMode } from '@/lib/clip'
+import type { AudioOptions } from '@/lib/audio'
+import type { VideoOptions } from '@/lib/container'
+import { JobProgressBar } from './JobProgressBar'
 
 export function DownloadButton({ 
   url, 
   format, 
   startTime, 
-  endTime 
+  endTime,
+  cutMode,
+  audio,
+  video,
+  embedMetadata,
+  subtitles,
 }: { 
   url: string; 
   format: string; 
   startTime?: string;
   endTime?: string;
+  cutMode?: CutMode;
+  audio?: AudioOptions;
+  video?: VideoOptions;
+  embedMetadata?: boolean;
+  subtitles?: string[];
 }) {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [progress, setProgress] = useState<JobProgress | null>(null)
+  const [resolution, setResolution] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop the server-side job if the user navigates away mid-download
+  useEffect(() => () => abortRef.current?.abort(), [])
 
   const handleDownload = async () => {
     setLoading(true)
     setError(null)
     setSuccess(false)
+    setProgress(null)
+    setResolution(null)
+
+    const controller = new AbortController()
+    abortRef.current = controller
     
     try {
-      const response = await fetch('/api/download', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, format, startTime, endTime }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Download failed')
-      }
-
-      const blob = await response.blob()
-      const link = document.createElement('a')
-      const objectUrl = URL.createObjectURL(blob)
-      link.href = objectUrl
+      const job = await runJob(
+        { type: 'download', url, format, startTime, endTime, cutMode, audio, video, embedMetadata, subtitles },
+        (snapshot) => setProgress(snapshot.progress),
+        controller.signal
+      )
 
-      const isAudio = format?.includes('audio')
-      const extension = isAudio ? 'mp3' : 'mp4'
-      const clipSuffix = (startTime || endTime) ? '_clip' : ''
-      link.download = `video${clipSuffix}.${extension}`
-      
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      URL.revokeObjectURL(objectUrl)
+      downloadJobFile(job)
+      setResolution(job.resolution)
       
       setSuccess(true)
       setTimeout(() => setSuccess(false), 3000)
       
     } catch (error: any) {
-      setError(error.message || 'Download failed')
+      if (error.name !== 'AbortError') {
+        setError(error.message || 'Download failed')
+      }
     } finally {
+      abortRef.current = null
       setLoading(false)
+      setProgress(null)
     }
   }
 
@@ -79,6 +93,21 @@ export function DownloadButton({
           : (startTime || endTime) ? 'download clip' : 'download'
         }
       </button>
+
+      {loading && progress && <JobProgressBar progress={progress} />}
+
+      {loading && (
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="w-full py-2 px-6 border border-dashed text-sm hover:bg-muted transition-colors"
+        >
+          cancel
+        </button>
+      )}
+      
+      {resolution && !loading && (
+        <p className="text-xs text-muted-foreground">delivered at {resolution}</p>
+      )}
       
       {error && (
         <div className="p-3 border border-dashed border-red-500 bg-red-500/10">
@@ -1,45 +1,283 @@
-const formats = [
-  { id: "best[height<=1080]", label: "1080p", quality: "High" },
-  { id: "best[height<=720]", label: "720p", quality: "Medium" },
-  { id: "best[height<=480]", label: "480p", quality: "Low" },
-  { id: "bestaudio", label: "Audio Only", quality: "MP3" },
+"use client";
+
+import { useState } from "react";
+import {
+  AUDIO_CODECS,
+  AUDIO_BITRATES,
+  type AudioCodec,
+  type AudioOptions,
+} from "@/lib/audio";
+import {
+  describeFormat,
+  formatForHeight,
+  resolutionOptions,
+  type FormatOption,
+  type VideoFormat,
+} from "@/lib/formats";
+import {
+  VIDEO_CONTAINERS,
+  VIDEO_CODECS,
+  codecFitsContainer,
+  type VideoContainer,
+  type VideoOptions,
+} from "@/lib/container";
+
+export const AUDIO_FORMAT_ID = "bestaudio";
+
+// Used when the video info has no usable format list
+const presets: FormatOption[] = [
+  { id: formatForHeight(1080), label: "1080p", detail: "High", filesize: null },
+  { id: formatForHeight(720), label: "720p", detail: "Medium", filesize: null },
+  { id: formatForHeight(480), label: "480p", detail: "Low", filesize: null },
 ];
 
+// Pick the best option at or below the given height, e.g. as the initial selection
+export function defaultFormatId(formats: VideoFormat[] | undefined, maxHeight = 720): string {
+  const options = formats ? resolutionOptions(formats) : [];
+  const match = options.find((o) => parseInt(o.label, 10) <= maxHeight) || options[options.length - 1];
+  return match ? match.id : formatForHeight(maxHeight);
+}
+
 export function FormatSelector({
   selected,
   onChange,
+  audio,
+  onAudioChange,
+  video,
+  onVideoChange,
+  availableFormats = [],
 }: {
   selected: string;
   onChange: (id: string) => void;
+  audio: AudioOptions;
+  onAudioChange: (audio: AudioOptions) => void;
+  video: VideoOptions;
+  onVideoChange: (video: VideoOptions) => void;
+  availableFormats?: VideoFormat[];
 }) {
+  const [advanced, setAdvanced] = useState(false);
+  const isAudio = selected === AUDIO_FORMAT_ID;
+  const lossless = AUDIO_CODECS[audio.codec].lossless;
+
+  const realOptions = resolutionOptions(availableFormats);
+  const formats = [
+    ...(realOptions.length > 0 ? realOptions : presets),
+    { id: AUDIO_FORMAT_ID, label: "Audio Only", detail: "", filesize: null },
+  ];
+
+  // Streams for the advanced picker: anything with video, and audio-only streams to pair with it
+  const videoStreams = availableFormats.filter((f) => f.vcodec);
+  const audioStreams = availableFormats.filter((f) => f.audioOnly);
+  const [selectedVideo, selectedAudio] = selected.split("+");
+  const advancedVideo = videoStreams.find((f) => f.id === selectedVideo);
+  const advancedAudio = audioStreams.find((f) => f.id === (selectedAudio ?? selectedVideo));
+
+  // Keep the codec preference only if the new container can hold it
+  const selectContainer = (container: VideoContainer) =>
+    onVideoChange({
+      ...video,
+      container,
+      videoCodec: video.videoCodec && codecFitsContainer(video.videoCodec, container) ? video.videoCodec : null,
+    });
+
+  const selectStreams = (videoId: string, audioId: string) => {
+    if (!videoId) {
+      if (audioId) onChange(audioId);
+      return;
+    }
+    onChange(audioId ? `${videoId}+${audioId}` : videoId);
+  };
+
   return (
     <div className="border border-dashed overflow-hidden">
-      <div className="p-3 border-b border-dashed bg-card">
+      <div className="p-3 border-b border-dashed bg-card flex items-center justify-between">
         <span className="text-sm font-medium">quality</span>
+        {availableFormats.length > 0 && (
+          <button
+            onClick={() => setAdvanced((a) => !a)}
+            className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {advanced ? "simple" : "advanced"}
+          </button>
+        )}
       </div>
-      <div className="p-4">
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-          {formats.map((f) => (
-            <button
-              key={f.id}
-              onClick={() => onChange(f.id)}
-              className={`p-3 border border-dashed text-sm transition-colors ${
-                selected === f.id
-                  ? "bg-foreground text-background"
-                  : "bg-background hover:bg-muted"
-              }`}
-            >
-              <div className="font-medium">{f.label}</div>
-              <div
-                className={`text-xs ${
-                  selected === f.id ? "text-background/70" : "text-muted-foreground"
+      <div className="p-4 space-y-4">
+        {advanced ? (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">video stream</label>
+              <select
+                value={advancedVideo?.id ?? ""}
+                onChange={(e) => selectStreams(e.target.value, advancedAudio?.id ?? "")}
+                className="w-full px-2 py-1.5 text-sm border border-dashed bg-background"
+              >
+                <option value="">none (audio only)</option>
+                {videoStreams.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {describeFormat(f)}
+                    {f.videoOnly ? "" : " (has audio)"}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">audio stream</label>
+              <select
+                value={advancedAudio?.id ?? ""}
+                onChange={(e) => selectStreams(advancedVideo?.id ?? "", e.target.value)}
+                className="w-full px-2 py-1.5 text-sm border border-dashed bg-background"
+              >
+                <option value="">{advancedVideo && !advancedVideo.videoOnly ? "built-in" : "none"}</option>
+                {audioStreams.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {describeFormat(f)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              format: <span className="font-mono">{selected}</span>
+              {selected.includes("+") && " (merged on the server)"}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {formats.map((f) => (
+              <button
+                key={f.id}
+                onClick={() => onChange(f.id)}
+                className={`p-3 border border-dashed text-sm transition-colors ${
+                  selected === f.id
+                    ? "bg-foreground text-background"
+                    : "bg-background hover:bg-muted"
                 }`}
               >
-                {f.quality}
+                <div className="font-medium">{f.label}</div>
+                <div
+                  className={`text-xs ${
+                    selected === f.id ? "text-background/70" : "text-muted-foreground"
+                  }`}
+                >
+                  {f.id === AUDIO_FORMAT_ID ? AUDIO_CODECS[audio.codec].label : f.detail}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!isAudio && (
+          <div className="space-y-3 pt-4 border-t border-dashed">
+            <div>
+              <label className="block text-sm font-medium mb-1">container</label>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(VIDEO_CONTAINERS) as VideoContainer[]).map((container) => (
+                  <button
+                    key={container}
+                    onClick={() => selectContainer(container)}
+                    className={`p-2 border border-dashed text-xs transition-colors ${
+                      video.container === container
+                        ? "bg-foreground text-background"
+                        : "bg-background hover:bg-muted"
+                    }`}
+                  >
+                    {VIDEO_CONTAINERS[container].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">video codec</label>
+              <div className="grid grid-cols-4 gap-2">
+                {[null, ...VIDEO_CONTAINERS[video.container].codecs].map((codec) => (
+                  <button
+                    key={codec ?? "auto"}
+                    onClick={() => onVideoChange({ ...video, videoCodec: codec })}
+                    className={`p-2 border border-dashed text-xs transition-colors ${
+                      video.videoCodec === codec
+                        ? "bg-foreground text-background"
+                        : "bg-background hover:bg-muted"
+                    }`}
+                  >
+                    {codec ? VIDEO_CODECS[codec].label : "auto"}
+                  </button>
+                ))}
               </div>
-            </button>
-          ))}
-        </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">conversion</label>
+              <div className="grid grid-cols-2 gap-2">
+                {[false, true].map((reencode) => (
+                  <button
+                    key={String(reencode)}
+                    onClick={() => onVideoChange({ ...video, reencode })}
+                    className={`p-2 border border-dashed text-xs transition-colors ${
+                      video.reencode === reencode
+                        ? "bg-foreground text-background"
+                        : "bg-background hover:bg-muted"
+                    }`}
+                  >
+                    {reencode ? "re-encode" : "remux only"}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {video.reencode
+                  ? "converts to the chosen codec with ffmpeg, slower"
+                  : "keeps the original streams; the codec is a preference and may fall back to MKV"}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {isAudio && !advanced && (
+          <div className="space-y-3 pt-4 border-t border-dashed">
+            <div>
+              <label className="block text-sm font-medium mb-1">audio format</label>
+              <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                {(Object.keys(AUDIO_CODECS) as AudioCodec[]).map((codec) => (
+                  <button
+                    key={codec}
+                    onClick={() => onAudioChange({ ...audio, codec })}
+                    className={`p-2 border border-dashed text-xs transition-colors ${
+                      audio.codec === codec
+                        ? "bg-foreground text-background"
+                        : "bg-background hover:bg-muted"
+                    }`}
+                  >
+                    {AUDIO_CODECS[codec].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">bitrate</label>
+              {lossless ? (
+                <p className="text-xs text-muted-foreground">
+                  lossless, no bitrate to choose
+                </p>
+              ) : (
+                <div className="grid grid-cols-5 gap-2">
+                  {AUDIO_BITRATES.map((bitrate) => (
+                    <button
+                      key={bitrate}
+                      onClick={() => onAudioChange({ ...audio, bitrate })}
+                      className={`p-2 border border-dashed text-xs transition-colors ${
+                        audio.bitrate === bitrate
+                          ? "bg-foreground text-background"
+                          : "bg-background hover:bg-muted"
+                      }`}
+                    >
+                      {bitrate}k
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,63 @@
+'use client'
+
+import type { JobProgress } from '@/lib/jobs'
+
+const phaseLabels: Record<JobProgress['phase'], string> = {
+  queued: 'waiting to start',
+  downloading: 'downloading',
+  merging: 'merging audio and video',
+  clipping: 'clipping',
+  encoding: 'encoding',
+  tagging: 'embedding metadata',
+  finished: 'done',
+}
+
+function formatSpeed(progress: JobProgress): string | null {
+  if (progress.speed === null) return null
+  // ffmpeg reports a realtime multiplier, yt-dlp (also when clipping a section) bytes per second
+  if (progress.phase === 'encoding') {
+    return `${progress.speed.toFixed(1)}x`
+  }
+  const units = ['B/s', 'KB/s', 'MB/s', 'GB/s']
+  let value = progress.speed
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(1)} ${units[unit]}`
+}
+
+function formatEta(seconds: number | null): string | null {
+  if (seconds === null) return null
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')} left`
+}
+
+export function JobProgressBar({ progress }: { progress: JobProgress }) {
+  const percent = progress.percent
+  const details = [formatSpeed(progress), formatEta(progress.eta)].filter(Boolean).join(' • ')
+
+  return (
+    <div className="space-y-2">
+      <div className="h-2 bg-muted relative overflow-hidden border border-dashed">
+        {percent !== null ? (
+          <div
+            className="absolute inset-y-0 left-0 bg-foreground transition-all"
+            style={{ width: `${Math.max(0, Math.min(100, percent))}%` }}
+          />
+        ) : (
+          <div className="absolute inset-y-0 left-0 w-1/3 bg-foreground/60 animate-pulse" />
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          {phaseLabels[progress.phase]}
+          {percent !== null && ` ${percent.toFixed(0)}%`}
+        </span>
+        {details && <span>{details}</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { filenameFromContentDisposition } from "@/lib/filename";
+import { SUBTITLE_FORMATS, type SubtitleFormat, type SubtitleTrack } from "@/lib/subtitles";
+
+const trackKey = (track: SubtitleTrack) => `${track.automatic ? "auto" : "sub"}:${track.lang}`;
+
+export function SubtitlesPanel({
+  url,
+  title,
+  uploader,
+  videoId,
+  embedLangs,
+  onEmbedLangsChange,
+  embedError,
+}: {
+  url: string;
+  title: string;
+  uploader?: string;
+  videoId?: string;
+  // Languages muxed into the video download
+  embedLangs: string[];
+  onEmbedLangsChange: (langs: string[]) => void;
+  // Why the current download settings can't hold subtitles, if they can't
+  embedError: string | null;
+}) {
+  const [open, setOpen] = useState(false);
+  const [tracks, setTracks] = useState<SubtitleTrack[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState("");
+  const [format, setFormat] = useState<SubtitleFormat>("srt");
+
+  const selected = tracks?.find((t) => trackKey(t) === selectedKey) ?? null;
+  const uploaded = tracks?.filter((t) => !t.automatic) ?? [];
+  const automatic = tracks?.filter((t) => t.automatic) ?? [];
+
+  // Listing runs yt-dlp, so tracks are only fetched once the panel is opened
+  const toggle = async () => {
+    setOpen(!open);
+    if (open || tracks) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/subtitles?${new URLSearchParams({ url })}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to list subtitles");
+
+      const list: SubtitleTrack[] = data.tracks;
+      setTracks(list);
+      // Prefer an uploaded English track, then any uploaded one, then captions
+      const initial =
+        list.find((t) => !t.automatic && t.lang.startsWith("en")) ??
+        list.find((t) => !t.automatic) ??
+        list.find((t) => t.lang === "en" || t.lang === "en-orig") ??
+        list[0];
+      if (initial) setSelectedKey(trackKey(initial));
+    } catch (err: any) {
+      setError(err.message || "Failed to list subtitles");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadTrack = async () => {
+    if (!selected) return;
+    setDownloading(true);
+    setError(null);
+    try {
+      // The server names the file after the video, with the language code
+      const params = new URLSearchParams({ url, lang: selected.lang, format, title });
+      if (selected.automatic) params.set("auto", "1");
+      if (uploader) params.set("uploader", uploader);
+      if (videoId) params.set("id", videoId);
+      const response = await fetch(`/api/subtitles?${params}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Subtitle download failed");
+      }
+
+      const filename =
+        filenameFromContentDisposition(response.headers.get("content-disposition")) || `subtitles.${format}`;
+      const blob = await response.blob();
+      const link = document.createElement("a");
+      const objectUrl = URL.createObjectURL(blob);
+      link.href = objectUrl;
+      link.download = filename;
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(objectUrl);
+    } catch (err: any) {
+      setError(err.message || "Subtitle download failed");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const embedded = selected ? embedLangs.includes(selected.lang) : false;
+  const toggleEmbed = () => {
+    if (!selected) return;
+    onEmbedLangsChange(
+      embedded ? embedLangs.filter((lang) => lang !== selected.lang) : [...embedLangs, selected.lang]
+    );
+  };
+
+  return (
+    <div className="border border-dashed overflow-hidden">
+      <div className="p-3 border-b border-dashed bg-card flex items-center justify-between">
+        <span className="text-sm font-medium">subtitles</span>
+        <button
+          onClick={toggle}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {open ? "hide" : "show"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="p-4 space-y-4">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading subtitle tracks...
+            </div>
+          ) : tracks && tracks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This video has no subtitles.</p>
+          ) : tracks ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-1">track</label>
+                <select
+                  value={selectedKey}
+                  onChange={(e) => setSelectedKey(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border border-dashed bg-background"
+                >
+                  {uploaded.length > 0 && (
+                    <optgroup label="Uploaded">
+                      {uploaded.map((t) => (
+                        <option key={trackKey(t)} value={trackKey(t)}>
+                          {t.name} ({t.lang})
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {automatic.length > 0 && (
+                    <optgroup label="Automatic captions">
+                      {automatic.map((t) => (
+                        <option key={trackKey(t)} value={trackKey(t)}>
+                          {t.name} ({t.lang})
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">format</label>
+                <div className="grid grid-cols-5 gap-2">
+                  {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map((f) => (
+                    <button
+                      key={f}
+                      onClick={() => setFormat(f)}
+                      className={`p-2 border border-dashed text-xs transition-colors ${
+                        format === f ? "bg-foreground text-background" : "bg-background hover:bg-muted"
+                      }`}
+                    >
+                      {SUBTITLE_FORMATS[f].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={downloadTrack}
+                  disabled={!selected || downloading}
+                  className="flex items-center justify-center gap-2 p-2 border border-dashed text-xs bg-background hover:bg-muted transition-colors disabled:opacity-50"
+                >
+                  {downloading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+                  download {format}
+                </button>
+                <button
+                  onClick={toggleEmbed}
+                  disabled={!selected || !!embedError}
+                  className={`p-2 border border-dashed text-xs transition-colors disabled:opacity-50 ${
+                    embedded ? "bg-foreground text-background" : "bg-background hover:bg-muted"
+                  }`}
+                >
+                  {embedded ? "embedded in video" : "embed in video"}
+                </button>
+              </div>
+
+              {embedLangs.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {embedError
+                    ? `not embedding: ${embedError.toLowerCase()}`
+                    : `embedding into the download: ${embedLangs.join(", ")}`}
+                </p>
+              )}
+            </>
+          ) : null}
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,16 +2,22 @@
 
 import { useState } from 'react'
 import { X, Download } from 'lucide-react'
+import { filenameFromContentDisposition } from '@/lib/filename'
+import { downloadArchive } from '@/lib/archive-client'
 
 interface ThumbnailModalProps {
   isOpen: boolean
   onClose: () => void
   thumbnail: string
+  // Server-signed token the thumbnail proxy requires for `thumbnail`
+  thumbnailToken?: string | null
   title: string
   videoUrl: string
+  uploader?: string
+  videoId?: string
 }
 
-export function ThumbnailModal({ isOpen, onClose, thumbnail, title, videoUrl }: ThumbnailModalProps) {
+export function ThumbnailModal({ isOpen, onClose, thumbnail, thumbnailToken, title, videoUrl, uploader, videoId }: ThumbnailModalProps) {
   const [downloading, setDownloading] = useState(false)
   const [thumbnails, setThumbnails] = useState<any[]>([])
   const [loadingThumbnails, setLoadingThumbnails] = useState(false)
@@ -38,13 +44,17 @@ export function ThumbnailModal({ isOpen, onClose, thumbnail, title, videoUrl }:
     }
   }
 
-  const downloadThumbnail = async (thumbnailUrl: string, quality: string) => {
+  const downloadThumbnail = async (thumbnailUrl: string, token: string, quality: string) => {
     setDownloading(true)
     try {
-      const filename = `${title.replace(/[^a-zA-Z0-9]/g, '_')}_${quality}.jpg`
-      const response = await fetch(`/api/thumbnail?url=${encodeURIComponent(thumbnailUrl)}&filename=${filename}`)
+      // The server names the file from the metadata and the real image type
+      const params = new URLSearchParams({ url: thumbnailUrl, token, title: `${title} (${quality})` })
+      if (uploader) params.set('uploader', uploader)
+      if (videoId) params.set('id', videoId)
+      const response = await fetch(`/api/thumbnail?${params}`)
       
       if (response.ok) {
+        const filename = filenameFromContentDisposition(response.headers.get('content-disposition')) || 'thumbnail.jpg'
         const blob = await response.blob()
         const link = document.createElement('a')
         const objectUrl = URL.createObjectURL(blob)
@@ -63,6 +73,24 @@ export function ThumbnailModal({ isOpen, onClose, thumbnail, title, videoUrl }:
     }
   }
 
+  // Every size in one ZIP, named like single downloads
+  const downloadAllThumbnails = () => {
+    downloadArchive({
+      name: `${title} thumbnails`,
+      items: thumbnails.map((thumb) => ({
+        type: 'thumbnail',
+        url: thumb.url,
+        token: thumb.token,
+        title: thumb.width === 'unknown'
+          ? `${title} (${thumb.quality})`
+          : `${title} (${thumb.quality} ${thumb.width}x${thumb.height})`,
+        uploader,
+        id: videoId,
+        source: videoUrl,
+      })),
+    })
+  }
+
   if (!isOpen) return null
 
   return (
@@ -100,8 +128,8 @@ export function ThumbnailModal({ isOpen, onClose, thumbnail, title, videoUrl }:
             <div className="p-3 border-t border-dashed">
               <p className="text-sm font-medium mb-2">{title}</p>
               <button
-                onClick={() => downloadThumbnail(thumbnail, 'default')}
-                disabled={downloading}
+                onClick={() => thumbnailToken && downloadThumbnail(thumbnail, thumbnailToken, 'default')}
+                disabled={downloading || !thumbnailToken}
                 className="flex items-center gap-2 px-3 py-2 border border-dashed hover:bg-muted disabled:opacity-50"
               >
                 <Download className="w-4 h-4" />
@@ -123,6 +151,15 @@ export function ThumbnailModal({ isOpen, onClose, thumbnail, title, videoUrl }:
                     load thumbnails
                   </button>
                 )}
+                {thumbnails.length > 1 && (
+                  <button
+                    onClick={downloadAllThumbnails}
+                    className="flex items-center gap-1 px-3 py-1 text-xs border border-dashed hover:bg-muted"
+                  >
+                    <Download className="w-3 h-3" />
+                    download all (zip)
+                  </button>
+                )}
               </div>
             </div>
             
@@ -150,7 +187,7 @@ export function ThumbnailModal({ isOpen, onClose, thumbnail, title, videoUrl }:
                           {thumb.width}x{thumb.height} • {thumb.quality}
                         </div>
                         <button
-                          onClick={() => downloadThumbnail(thumb.url, thumb.quality)}
+                          onClick={() => downloadThumbnail(thumb.url, thumb.token, thumb.quality)}
                           disabled={downloading}
                           className="w-full px-2 py-1 text-xs border border-dashed hover:bg-muted disabled:opacity-50"
                         >
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useRef } from 'react'
+import { isSupportedUrl } from '@/lib/urls'
 
 interface UrlInputProps {
   url: string
@@ -13,11 +14,6 @@ export function UrlInput({ url, setUrl, setVideoInfo, loading }: UrlInputProps)
   const [isValid, setIsValid] = useState<boolean | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
-  const platforms = [
-    'youtube.com', 'youtu.be', 'vimeo.com', 'tiktok.com', 'instagram.com',
-    'twitter.com', 'facebook.com', 'twitch.tv', 'soundcloud.com','pintrest.com'
-  ]
-
   const handleChange = (value: string) => {
     setUrl(value)
     
@@ -27,15 +23,9 @@ export function UrlInput({ url, setUrl, setVideoInfo, loading }: UrlInputProps)
       return
     }
 
-    try {
-      new URL(value)
-      const supported = platforms.some(platform => value.includes(platform))
-      setIsValid(supported)
-      if (!supported) setVideoInfo(null)
-    } catch {
-      setIsValid(false)
-      setVideoInfo(null)
-    }
+    const supported = isSupportedUrl(value)
+    setIsValid(supported)
+    if (!supported) setVideoInfo(null)
   }
 
   const handlePaste = async () => {
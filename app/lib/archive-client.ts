@@ -0,0 +1,20 @@
+import type { ArchiveRequest } from "./archive";
+
+// Let the browser save a streamed ZIP from /api/zip. The request is sent as a
+// form submission rather than with fetch, so the archive goes straight to disk
+// (with the browser's own progress) instead of being held in memory.
+export function downloadArchive(request: ArchiveRequest) {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = "/api/zip";
+
+  const field = document.createElement("input");
+  field.type = "hidden";
+  field.name = "request";
+  field.value = JSON.stringify(request);
+  form.appendChild(field);
+
+  document.body.appendChild(form);
+  form.submit();
+  document.body.removeChild(form);
+}
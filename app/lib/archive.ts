@@ -0,0 +1,246 @@
+import { randomUUID } from "crypto";
+import { mkdir, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  getJobFile,
+  downloadVideo,
+  exportShortVideo,
+  withJobSlot,
+  type JobRequest,
+  type DownloadJobRequest,
+  type ShortJobRequest,
+} from "./jobs";
+import { parseJobRequest } from "./job-requests";
+import { parseFilenameTemplate, renderFilename } from "./filename";
+import { imageExtension } from "./media";
+import { parseTimeToSeconds } from "./utils";
+import { MAX_PLAYLIST_ENTRIES } from "./playlist";
+import { uniqueName, type ZipEntry } from "./zip";
+import { parseMediaUrl } from "./urls";
+import { verifyThumbnailUrl, fetchPublicImage } from "./url-guard";
+
+// ZIP archives assembled while they are sent: finished job outputs, videos,
+// clips and shorts produced on the fly, and thumbnails. Every archive ends
+// with a manifest.json saying where each file came from.
+
+// The output of a finished job; batch jobs contribute all of their files
+export interface JobArchiveItem {
+  type: "job";
+  id: string;
+}
+
+export interface ThumbnailArchiveItem {
+  type: "thumbnail";
+  url: string;
+  // Signature from /api/thumbnail or /api/video-info; only those URLs are fetched
+  token: string;
+  // Video metadata for the filename template
+  title?: string;
+  uploader?: string;
+  id?: string;
+  // Page of the video the thumbnail belongs to
+  source?: string;
+  filenameTemplate?: string;
+}
+
+export type ArchiveItem = JobArchiveItem | ThumbnailArchiveItem | DownloadJobRequest | ShortJobRequest;
+
+export interface ArchiveRequest {
+  // Archive name, e.g. the playlist or video title
+  name?: string;
+  items: ArchiveItem[];
+}
+
+export interface ManifestEntry {
+  // Path inside the archive, null if the item failed
+  file: string | null;
+  type: "download" | "clip" | "short" | "thumbnail";
+  // The video (or image) the file was made from
+  source: string;
+  // yt-dlp format selector, export quality or image type
+  format: string | null;
+  // Seconds into the source, null for whole videos
+  start: number | null;
+  end: number | null;
+  error: string | null;
+}
+
+export const MAX_ARCHIVE_ITEMS = MAX_PLAYLIST_ENTRIES;
+
+const MANIFEST_NAME = "manifest.json";
+
+// Thumbnails are held in memory while they are archived
+const MAX_THUMBNAIL_BYTES = 20 * 1024 * 1024;
+
+// Check an archive request body, or say which item is wrong with it
+export function parseArchiveRequest(body: unknown): ArchiveRequest | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "A JSON object with items is required" };
+  }
+  const rawItems: unknown[] = "items" in body && Array.isArray(body.items) ? body.items : [];
+  if (rawItems.length === 0) {
+    return { error: "At least one item is required" };
+  }
+  if (rawItems.length > MAX_ARCHIVE_ITEMS) {
+    return { error: `At most ${MAX_ARCHIVE_ITEMS} items can be archived at once` };
+  }
+
+  const items: ArchiveItem[] = [];
+  for (let i = 0; i < rawItems.length; i++) {
+    const item = parseArchiveItem(rawItems[i]);
+    if ("error" in item) return { error: `Item ${i + 1}: ${item.error}` };
+    items.push(item);
+  }
+
+  return { name: "name" in body && typeof body.name === "string" ? body.name : undefined, items };
+}
+
+function parseArchiveItem(raw: any): ArchiveItem | { error: string } {
+  switch (raw?.type) {
+    case "job":
+      return typeof raw.id === "string" && raw.id ? { type: "job", id: raw.id } : { error: "Job id is required" };
+    case "thumbnail": {
+      const url = parseMediaUrl(raw.url);
+      if (!url) {
+        return { error: "A valid http(s) thumbnail URL is required" };
+      }
+      if (!verifyThumbnailUrl(url, raw.token)) {
+        return { error: "Only thumbnails of a known video can be archived" };
+      }
+      return {
+        type: "thumbnail",
+        url,
+        token: raw.token,
+        title: typeof raw.title === "string" ? raw.title : undefined,
+        uploader: typeof raw.uploader === "string" ? raw.uploader : undefined,
+        id: typeof raw.id === "string" ? raw.id : undefined,
+        source: typeof raw.source === "string" ? raw.source : undefined,
+        filenameTemplate: parseFilenameTemplate(raw.filenameTemplate),
+      };
+    }
+    case "download":
+    case "short":
+      return parseJobRequest(raw) as DownloadJobRequest | ShortJobRequest | { error: string };
+    default:
+      return { error: `Unknown item type: ${raw?.type}` };
+  }
+}
+
+type ItemDescription = Omit<ManifestEntry, "file" | "error">;
+
+// Manifest fields of a job request's output; batch items are described like downloads
+function describeRequest(request: JobRequest, source: string): ItemDescription {
+  if (request.type === "short") {
+    return { type: "short", source, format: request.quality || "best", start: request.start, end: request.end };
+  }
+
+  const format = request.format || (request.audio ? "bestaudio/best" : "best");
+  if (request.type === "download" && (request.startTime || request.endTime)) {
+    return {
+      type: "clip",
+      source,
+      format,
+      start: parseTimeToSeconds(request.startTime || ""),
+      end: parseTimeToSeconds(request.endTime || ""),
+    };
+  }
+  return { type: "download", source, format, start: null, end: null };
+}
+
+function describeItem(item: ArchiveItem): ItemDescription {
+  if (item.type === "thumbnail") {
+    return { type: "thumbnail", source: item.source || item.url, format: null, start: null, end: null };
+  }
+  if (item.type === "job") {
+    const file = getJobFile(item.id);
+    return file
+      ? describeRequest(file.request, "url" in file.request ? file.request.url : "")
+      : { type: "download", source: "", format: null, start: null, end: null };
+  }
+  return describeRequest(item, item.url);
+}
+
+interface ItemFile {
+  entry: ZipEntry;
+  description: ItemDescription;
+}
+
+// Produce the files of one item inside itemDir
+async function itemFiles(item: ArchiveItem, itemDir: string, signal: AbortSignal): Promise<ItemFile[]> {
+  if (item.type === "job") {
+    const file = getJobFile(item.id);
+    if (!file) throw new Error("Job output is no longer available");
+    if (file.entries) {
+      return file.entries.map((entry) => ({
+        entry: { name: entry.name, path: entry.path },
+        description: describeRequest(file.request, entry.url),
+      }));
+    }
+    return [{ entry: { name: file.filename, path: file.path }, description: describeItem(item) }];
+  }
+
+  if (item.type === "thumbnail") {
+    const { data, contentType } = await fetchPublicImage(item.url, { maxBytes: MAX_THUMBNAIL_BYTES, signal });
+    const ext = imageExtension(contentType);
+    const name = renderFilename(
+      item.filenameTemplate || parseFilenameTemplate(undefined),
+      { title: item.title || "thumbnail", uploader: item.uploader, id: item.id },
+      ext
+    );
+    return [{ entry: { name, data }, description: { ...describeItem(item), format: ext } }];
+  }
+
+  // Takes a job slot like any other download, however many archives are being built
+  const result = await withJobSlot(async () => {
+    await mkdir(itemDir, { recursive: true });
+    return item.type === "short"
+      ? exportShortVideo(item, itemDir, signal, () => {})
+      : downloadVideo(item, itemDir, !!(item.startTime || item.endTime), signal, () => {});
+  }, signal);
+  return [{ entry: { name: result.filename, path: result.path }, description: describeItem(item) }];
+}
+
+// The archive's entries, produced one item at a time as the archive is read.
+// A failed item is recorded in the manifest and skipped; aborting `signal`
+// (the client went away) stops whatever is running. Temporary files are
+// deleted as soon as they have been archived.
+export async function* archiveEntries(request: ArchiveRequest, signal: AbortSignal): AsyncGenerator<ZipEntry> {
+  const workDir = join(tmpdir(), `archive-${randomUUID()}`);
+  const used = new Set<string>([MANIFEST_NAME]);
+  const manifest: ManifestEntry[] = [];
+
+  try {
+    for (let i = 0; i < request.items.length; i++) {
+      const item = request.items[i];
+      const itemDir = join(workDir, String(i + 1));
+
+      let files: ItemFile[];
+      try {
+        files = await itemFiles(item, itemDir, signal);
+      } catch (error: any) {
+        if (signal.aborted) throw error;
+        console.error(`Archive item ${i + 1} failed:`, error);
+        manifest.push({ file: null, ...describeItem(item), error: error.message || "Failed" });
+        continue;
+      }
+
+      for (const { entry, description } of files) {
+        // Names are made unique here so the manifest matches the archive
+        const name = uniqueName(entry.name, used);
+        manifest.push({ file: name, ...description, error: null });
+        yield { ...entry, name };
+      }
+
+      // The archive asks for the next entry only once the previous one has been read
+      await rm(itemDir, { recursive: true, force: true }).catch(() => {});
+    }
+
+    yield {
+      name: MANIFEST_NAME,
+      data: JSON.stringify({ name: request.name ?? null, created: new Date().toISOString(), entries: manifest }, null, 2),
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
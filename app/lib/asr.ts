@@ -0,0 +1,175 @@
+import { mkdir, readFile, readdir } from "fs/promises";
+import { join } from "path";
+import { runProcess } from "./process";
+import { download } from "./ytdlp";
+import { baseLanguage } from "./subtitles";
+import type { TranscriptSegment, TranscriptWord } from "./shorts-export";
+
+// Speech-to-text on the server's CPU, for videos without subtitles. The
+// backend is a local command-line transcriber picked with ASR_BACKEND:
+//   whisper-cpp  whisper.cpp's whisper-cli, ASR_MODEL is the path of a ggml model
+//   whisper      the openai-whisper CLI, or a compatible one such as
+//                whisper-ctranslate2 (faster-whisper); ASR_MODEL is a model name
+// Nothing is transcribed when ASR_BACKEND is unset.
+
+export type AsrBackendName = "whisper-cpp" | "whisper";
+
+export interface Transcription {
+  // Language spoken, as detected by the transcriber (or ASR_LANGUAGE)
+  language: string | null;
+  segments: TranscriptSegment[];
+}
+
+interface TranscribeOptions {
+  // ISO 639-1 code, or "auto" to detect it
+  language: string;
+  signal?: AbortSignal;
+  timeout: number;
+}
+
+interface AsrBackend {
+  name: AsrBackendName;
+  // Transcribe a 16 kHz mono WAV file; output files are written to workDir
+  transcribe(audioPath: string, workDir: string, options: TranscribeOptions): Promise<Transcription>;
+}
+
+// Transcription is slow on CPU: roughly real time for the larger models
+const ASR_TIMEOUT_MS = Number(process.env.ASR_TIMEOUT_MS) || 60 * 60 * 1000;
+
+const AUDIO_TIMEOUT_MS = 10 * 60 * 1000;
+
+function cleanText(text: unknown): string {
+  return typeof text === "string" ? text.replace(/\s+/g, " ").trim() : "";
+}
+
+// whisper.cpp times sub-word tokens; a token starting with a space begins a
+// new word. Special tokens like [_BEG_] and [_TT_150] are skipped.
+function wordsFromTokens(tokens: any[]): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+  for (const token of tokens) {
+    const text = typeof token.text === "string" ? token.text : "";
+    if (!text.trim() || /^\[_.*\]$/.test(text.trim())) continue;
+    const start = Number(token.offsets?.from) / 1000;
+    const end = Number(token.offsets?.to) / 1000;
+    const last = words[words.length - 1];
+    if (last && !/^\s/.test(text)) {
+      last.text += text.trim();
+      last.end = end;
+    } else {
+      words.push({ start, end, text: text.trim() });
+    }
+  }
+  return words;
+}
+
+// whisper-cli -ojf writes { result: { language }, transcription: [{ offsets: { from, to }, text, tokens }] }, offsets in ms
+const whisperCpp: AsrBackend = {
+  name: "whisper-cpp",
+  async transcribe(audioPath, workDir, { language, signal, timeout }) {
+    const model = process.env.ASR_MODEL;
+    if (!model) throw new Error("ASR_MODEL must point at a whisper.cpp model file");
+
+    const output = join(workDir, "transcript");
+    await runProcess(
+      process.env.ASR_BINARY || "whisper-cli",
+      ["-m", model, "-f", audioPath, "-l", language, "-ojf", "-of", output, "-np"],
+      { signal, timeout, maxOutput: null }
+    );
+
+    const result = JSON.parse(await readFile(`${output}.json`, "utf-8"));
+    const segments: TranscriptSegment[] = (result.transcription ?? [])
+      .map((item: any) => ({
+        start: Number(item.offsets?.from) / 1000,
+        end: Number(item.offsets?.to) / 1000,
+        text: cleanText(item.text),
+        words: Array.isArray(item.tokens) ? wordsFromTokens(item.tokens) : undefined,
+      }))
+      .filter((segment: TranscriptSegment) => segment.text && segment.end > segment.start);
+
+    return { language: result.result?.language || (language === "auto" ? null : language), segments };
+  },
+};
+
+// The whisper CLI writes <audio name>.json with { language, segments: [{ start, end, text, words }] } in seconds
+const whisper: AsrBackend = {
+  name: "whisper",
+  async transcribe(audioPath, workDir, { language, signal, timeout }) {
+    await runProcess(
+      process.env.ASR_BINARY || "whisper",
+      [
+        audioPath,
+        "--model", process.env.ASR_MODEL || "base",
+        "--output_format", "json",
+        "--output_dir", workDir,
+        "--verbose", "False",
+        "--word_timestamps", "True",
+        ...(language === "auto" ? [] : ["--language", language]),
+      ],
+      { signal, timeout, maxOutput: null }
+    );
+
+    const name = (await readdir(workDir)).find((name) => name.endsWith(".json"));
+    if (!name) throw new Error("The transcriber wrote no output");
+
+    const result = JSON.parse(await readFile(join(workDir, name), "utf-8"));
+    const segments: TranscriptSegment[] = (result.segments ?? [])
+      .map((item: any) => ({
+        start: Number(item.start),
+        end: Number(item.end),
+        text: cleanText(item.text),
+        words: Array.isArray(item.words)
+          ? item.words
+              .map((word: any) => ({ start: Number(word.start), end: Number(word.end), text: cleanText(word.word) }))
+              .filter((word: TranscriptWord) => word.text)
+          : undefined,
+      }))
+      .filter((segment: TranscriptSegment) => segment.text && segment.end > segment.start);
+
+    return { language: result.language || (language === "auto" ? null : language), segments };
+  },
+};
+
+const BACKENDS: Record<AsrBackendName, AsrBackend> = { "whisper-cpp": whisperCpp, whisper };
+
+// The configured backend, or null when speech-to-text is off
+function asrBackend(): AsrBackend | null {
+  const name = process.env.ASR_BACKEND?.trim().toLowerCase();
+  if (!name || name === "none") return null;
+  const backend = BACKENDS[name as AsrBackendName];
+  if (!backend) {
+    console.warn(`Unknown ASR_BACKEND "${name}", speech-to-text is off`);
+    return null;
+  }
+  return backend;
+}
+
+// Transcribe what is said in a video. Only the audio is downloaded, converted
+// to the 16 kHz mono WAV the transcribers expect. `language` skips detection
+// (ASR_LANGUAGE when left out). Resolves to null when speech-to-text is off.
+export async function transcribeVideo(
+  url: string,
+  workDir: string,
+  options: { language?: string | null; signal?: AbortSignal } = {}
+): Promise<Transcription | null> {
+  const { signal } = options;
+  const backend = asrBackend();
+  if (!backend) return null;
+
+  const audioPath = join(workDir, "audio.wav");
+  await download(url, {
+    format: "bestaudio/best",
+    output: join(workDir, "audio.%(ext)s"),
+    args: ["-x", "--audio-format", "wav", "--postprocessor-args", "ExtractAudio:-ar 16000 -ac 1"],
+    signal,
+    timeout: AUDIO_TIMEOUT_MS,
+  });
+
+  const outputDir = join(workDir, "asr");
+  await mkdir(outputDir, { recursive: true });
+  return backend.transcribe(audioPath, outputDir, {
+    // Transcribers take plain ISO 639-1 codes, not regional variants
+    language: options.language ? baseLanguage(options.language) : process.env.ASR_LANGUAGE?.trim() || "auto",
+    signal,
+    timeout: ASR_TIMEOUT_MS,
+  });
+}
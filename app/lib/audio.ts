@@ -0,0 +1,43 @@
+// Audio-only download options, shared by the API and FormatSelector
+
+export type AudioCodec = "mp3" | "m4a" | "opus" | "flac" | "wav";
+
+export interface AudioOptions {
+  codec: AudioCodec;
+  // kbps; ignored for lossless codecs
+  bitrate: number;
+}
+
+export const AUDIO_CODECS: Record<AudioCodec, { label: string; lossless: boolean }> = {
+  mp3: { label: "MP3", lossless: false },
+  m4a: { label: "M4A (AAC)", lossless: false },
+  opus: { label: "Opus", lossless: false },
+  flac: { label: "FLAC", lossless: true },
+  wav: { label: "WAV", lossless: true },
+};
+
+export const AUDIO_BITRATES = [96, 128, 192, 256, 320];
+
+export const defaultAudioOptions: AudioOptions = { codec: "mp3", bitrate: 192 };
+
+// Validate audio options from a request body; returns null when absent or invalid
+export function parseAudioOptions(value: any): AudioOptions | null {
+  if (!value || typeof value !== "object") return null;
+  if (!Object.hasOwn(AUDIO_CODECS, value.codec)) return null;
+
+  const bitrate = Number(value.bitrate);
+  return {
+    codec: value.codec,
+    bitrate: AUDIO_BITRATES.includes(bitrate) ? bitrate : defaultAudioOptions.bitrate,
+  };
+}
+
+// yt-dlp arguments that extract and transcode the audio track (needs ffmpeg).
+// The output file gets the codec name as its extension.
+export function audioExtractArgs(options: AudioOptions): string[] {
+  const args = ["-x", "--audio-format", options.codec];
+  if (!AUDIO_CODECS[options.codec].lossless) {
+    args.push("--audio-quality", `${options.bitrate}K`);
+  }
+  return args;
+}
@@ -0,0 +1,44 @@
+import type { TranscriptSegment, TranscriptWord } from "./shorts-export";
+
+// Caption timing shared by the editor preview and the captions burned into
+// exported shorts, so both show the same words at the same time.
+
+function isTimedWord(word: any): word is TranscriptWord {
+  return !!word && Number.isFinite(word.start) && Number.isFinite(word.end) && typeof word.text === "string";
+}
+
+// A segment's words with their timing. Transcripts without word timestamps
+// (uploaded subtitles, edited text) spread the segment evenly over its words.
+export function segmentWords(segment: TranscriptSegment): TranscriptWord[] {
+  if (segment.words?.length && segment.words.every(isTimedWord)) {
+    return segment.words.filter((word) => word.text.trim());
+  }
+
+  const texts = segment.text.trim().split(/\s+/).filter((word) => word.length > 0);
+  const perWord = (segment.end - segment.start) / (texts.length || 1);
+  return texts.map((text, i) => ({
+    start: segment.start + i * perWord,
+    end: segment.start + (i + 1) * perWord,
+    text,
+  }));
+}
+
+// Split a segment into captions of at most `maxWords` words. Each caption
+// starts when its first word is spoken and stays up until the next one starts.
+export function captionChunks(segment: TranscriptSegment, maxWords: number): TranscriptSegment[] {
+  const words = segmentWords(segment);
+  const chunks: TranscriptSegment[] = [];
+
+  for (let i = 0; i < words.length; i += maxWords) {
+    const chunk = words.slice(i, i + maxWords);
+    const next = words[i + maxWords];
+    chunks.push({
+      start: i === 0 ? segment.start : chunk[0].start,
+      end: next ? next.start : segment.end,
+      text: chunk.map((word) => word.text).join(" "),
+      words: chunk,
+    });
+  }
+
+  return chunks;
+}
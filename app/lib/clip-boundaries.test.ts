@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { refineClipBoundaries, type ClipLimits, type Pause } from "./clip-boundaries";
+
+const limits: ClipLimits = { minDuration: 15, maxDuration: 60, exclude: [], others: [], overlap: 0 };
+const options = { tolerance: 3, videoDuration: 600, ...limits };
+
+// A silence ending just before 10s and one starting just after 40s
+const pauses: Pause[] = [
+  { start: 7, end: 9.5, kind: "silence" },
+  { start: 40.5, end: 43, kind: "silence" },
+];
+
+describe("refineClipBoundaries", () => {
+  it("moves both cuts into nearby pauses", () => {
+    expect(refineClipBoundaries({ start: 10, end: 40 }, pauses, [], options)).toEqual({ start: 9.3, end: 40.8 });
+  });
+
+  it("leaves the clip alone without a tolerance", () => {
+    expect(refineClipBoundaries({ start: 10, end: 40 }, pauses, [], { ...options, tolerance: 0 })).toEqual({ start: 10, end: 40 });
+  });
+
+  it("keeps a cut that would make the clip too long", () => {
+    const refined = refineClipBoundaries({ start: 10, end: 40 }, pauses, [], { ...options, maxDuration: 31 });
+    expect(refined).toEqual({ start: 9.3, end: 40 });
+  });
+
+  it("keeps a cut that would make the clip too short", () => {
+    const shortening: Pause[] = [{ start: 12, end: 12.5, kind: "silence" }, { start: 37, end: 38, kind: "silence" }];
+    expect(refineClipBoundaries({ start: 10, end: 40 }, shortening, [], { ...options, minDuration: 30 })).toEqual({ start: 10, end: 40 });
+  });
+
+  it("does not move a cut into an excluded range", () => {
+    const refined = refineClipBoundaries({ start: 10, end: 40 }, pauses, [], { ...options, exclude: [{ start: 0, end: 10 }] });
+    expect(refined).toEqual({ start: 10, end: 40.8 });
+  });
+
+  it("does not overlap another clip by more than the allowed overlap", () => {
+    const others = [{ start: 40.5, end: 70 }];
+    expect(refineClipBoundaries({ start: 10, end: 40 }, pauses, [], { ...options, others })).toEqual({ start: 9.3, end: 40 });
+    expect(refineClipBoundaries({ start: 10, end: 40 }, pauses, [], { ...options, others, overlap: 1 })).toEqual({
+      start: 9.3,
+      end: 40.8,
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { runProcess } from "./process";
+import type { TranscriptSegment, TranscriptWord } from "./shorts-export";
+
+// Moves the cut points of generated shorts to natural pauses, so clips don't
+// start mid-word or cut off the last syllable. Pauses come from the
+// transcript (sentence ends, gaps between words) and from ffmpeg's
+// silencedetect on the audio around each cut.
+
+// A stretch of time with nothing said, in seconds into the video
+export interface Pause {
+  start: number;
+  end: number;
+  kind: "silence" | "sentence" | "gap";
+}
+
+// Sentence-ending punctuation, allowing closing quotes and brackets after it
+const SENTENCE_END = /[.!?。！？।…]["'”’)\]]*$/;
+
+// Shorter gaps between words are just the rhythm of speech
+const MIN_WORD_GAP = 0.3;
+
+// Keep a little air before speech starts and after it stops
+const LEAD_IN = 0.2;
+const TRAIL_OUT = 0.3;
+
+// A silence this close to a sentence end is the pause after that sentence
+const SENTENCE_SILENCE_MATCH = 0.3;
+
+const SILENCE_NOISE = "-35dB";
+const SILENCE_MIN_DURATION = 0.25;
+const SILENCE_TIMEOUT_MS = 30000;
+
+// Pauses in a transcript: the ends of sentences, and gaps between words or
+// segments. Word gaps are only trusted when the transcript times each word.
+export function transcriptPauses(segments: TranscriptSegment[]): Pause[] {
+  const pauses: Pause[] = [];
+  const units: TranscriptWord[] = segments.flatMap((segment) =>
+    segment.words?.length ? segment.words : [{ start: segment.start, end: segment.end, text: segment.text }]
+  );
+
+  for (let i = 0; i < units.length; i++) {
+    const current = units[i];
+    const next = units[i + 1];
+    const nextStart = next ? Math.max(current.end, next.start) : current.end;
+    if (SENTENCE_END.test(current.text.trim())) {
+      pauses.push({ start: current.end, end: nextStart, kind: "sentence" });
+    } else if (next && next.start - current.end >= MIN_WORD_GAP) {
+      pauses.push({ start: current.end, end: next.start, kind: "gap" });
+    }
+  }
+  return pauses;
+}
+
+// Silences ffmpeg hears in `mediaUrl` between `from` and `to` seconds
+export async function detectSilences(
+  mediaUrl: string,
+  from: number,
+  to: number,
+  signal?: AbortSignal
+): Promise<Pause[]> {
+  const start = Math.max(0, from);
+  const { stderr } = await runProcess(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-nostats",
+      "-ss", start.toFixed(3),
+      "-t", Math.max(0.1, to - start).toFixed(3),
+      "-i", mediaUrl,
+      "-vn",
+      "-af", `silencedetect=noise=${SILENCE_NOISE}:d=${SILENCE_MIN_DURATION}`,
+      "-f", "null",
+      "-",
+    ],
+    { timeout: SILENCE_TIMEOUT_MS, signal }
+  );
+
+  // silencedetect prints "silence_start: 1.2" and "silence_end: 2.1 | ..."
+  // relative to the seek point; a silence still running at the end has no end
+  const pauses: Pause[] = [];
+  let silenceStart: number | null = null;
+  for (const line of stderr.split("\n")) {
+    const started = line.match(/silence_start: (-?[\d.]+)/);
+    const ended = line.match(/silence_end: ([\d.]+)/);
+    if (started) silenceStart = Math.max(0, Number(started[1]));
+    if (ended) {
+      pauses.push({ start: start + (silenceStart ?? 0), end: start + Number(ended[1]), kind: "silence" });
+      silenceStart = null;
+    }
+  }
+  if (silenceStart !== null) pauses.push({ start: start + silenceStart, end: to, kind: "silence" });
+  return pauses;
+}
+
+// Where to cut within a pause: just before speech resumes for a clip's
+// start, just after it stops for its end
+function cutPoint(pause: Pause, edge: "start" | "end"): number {
+  return edge === "start" ? Math.max(pause.start, pause.end - LEAD_IN) : Math.min(pause.end, pause.start + TRAIL_OUT);
+}
+
+// Silences after a sentence beat sentence ends the audio doesn't confirm,
+// which beat other silences, which beat gaps between words
+function rank(pause: Pause, pauses: Pause[]): number {
+  if (pause.kind === "silence") {
+    const afterSentence = pauses.some(
+      (other) => other.kind === "sentence" && Math.abs(other.start - pause.start) <= SENTENCE_SILENCE_MATCH
+    );
+    return afterSentence ? 0 : 2;
+  }
+  return pause.kind === "sentence" ? 1 : 3;
+}
+
+// Move one cut to the best pause within `tolerance` seconds. Without one, a
+// cut that falls inside a timed word moves to that word's edge instead.
+function refineEdge(
+  time: number,
+  edge: "start" | "end",
+  pauses: Pause[],
+  words: TranscriptWord[],
+  tolerance: number
+): number {
+  const candidates = pauses
+    .map((pause) => ({ pause, cut: cutPoint(pause, edge) }))
+    .filter(({ cut }) => Math.abs(cut - time) <= tolerance)
+    .sort((a, b) => rank(a.pause, pauses) - rank(b.pause, pauses) || Math.abs(a.cut - time) - Math.abs(b.cut - time));
+  if (candidates.length > 0) return candidates[0].cut;
+
+  const word = words.find((word) => time > word.start && time < word.end);
+  if (word) {
+    const cut = edge === "start" ? word.start : word.end;
+    if (Math.abs(cut - time) <= tolerance) return cut;
+  }
+  return time;
+}
+
+// Limits a refined clip must still meet, from the shorts options: its length,
+// the excluded ranges (resolved to seconds) and how much it may share with
+// the other clips
+export interface ClipLimits {
+  minDuration: number;
+  maxDuration: number;
+  exclude: { start: number; end: number }[];
+  others: { start: number; end: number }[];
+  overlap: number;
+}
+
+function withinLimits(start: number, end: number, limits: ClipLimits): boolean {
+  const duration = end - start;
+  return (
+    duration >= limits.minDuration &&
+    duration <= limits.maxDuration &&
+    !limits.exclude.some((range) => start < range.end && end > range.start) &&
+    !limits.others.some((other) => Math.min(end, other.end) - Math.max(start, other.start) > limits.overlap)
+  );
+}
+
+// Refined start and end of a clip, to the hundredth of a second. `pauses`
+// holds the transcript's pauses and any detected silences. When moving both
+// cuts breaks a limit, only one is moved, and failing that neither.
+export function refineClipBoundaries(
+  clip: { start: number; end: number },
+  pauses: Pause[],
+  segments: TranscriptSegment[],
+  options: { tolerance: number; videoDuration: number } & ClipLimits
+): { start: number; end: number } {
+  if (options.tolerance <= 0) return clip;
+
+  const words = segments.flatMap((segment) => segment.words ?? []);
+  const round = (time: number) => Math.round(time * 100) / 100;
+  const start = round(Math.max(0, refineEdge(clip.start, "start", pauses, words, options.tolerance)));
+  let end = refineEdge(clip.end, "end", pauses, words, options.tolerance);
+  if (options.videoDuration > 0) end = Math.min(end, options.videoDuration);
+  end = round(end);
+
+  const candidates = [
+    { start, end },
+    { start, end: clip.end },
+    { start: clip.start, end },
+  ];
+  return candidates.find((candidate) => candidate.end > candidate.start && withinLimits(candidate.start, candidate.end, options)) ?? clip;
+}
@@ -0,0 +1,26 @@
+// How a clip is cut out of the source:
+// - "fast": yt-dlp copies the streams, so cuts snap to the nearest keyframes
+// - "accurate": yt-dlp re-encodes around the cut points for frame-accurate boundaries
+export type CutMode = "fast" | "accurate";
+
+// Reported to clients in the X-Clipping-Status header
+export const CLIPPING_STATUS: Record<CutMode, string> = {
+  fast: "keyframe-aligned",
+  accurate: "frame-accurate",
+};
+
+export function parseCutMode(value: unknown): CutMode {
+  return value === "accurate" ? "accurate" : "fast";
+}
+
+// yt-dlp arguments that download only the requested time range instead of the
+// whole video. A missing start means "from the beginning", a missing end "to the end".
+export function downloadSectionArgs(
+  startSeconds: number | null,
+  endSeconds: number | null,
+  mode: CutMode
+): string[] {
+  const args = ["--download-sections", `*${startSeconds ?? 0}-${endSeconds ?? "inf"}`];
+  if (mode === "accurate") args.push("--force-keyframes-at-cuts");
+  return args;
+}
@@ -0,0 +1,86 @@
+// Video container and codec options, shared by the API and FormatSelector
+
+export type VideoContainer = "mp4" | "webm" | "mkv";
+export type VideoCodec = "h264" | "vp9" | "av1";
+
+export interface VideoOptions {
+  container: VideoContainer;
+  // Preferred codec when picking streams, and the target codec when re-encoding
+  videoCodec: VideoCodec | null;
+  // Re-encode with ffmpeg instead of only remuxing what the site offers
+  reencode: boolean;
+}
+
+export const VIDEO_CONTAINERS: Record<VideoContainer, { label: string; codecs: VideoCodec[] }> = {
+  mp4: { label: "MP4", codecs: ["h264", "vp9", "av1"] },
+  webm: { label: "WebM", codecs: ["vp9", "av1"] },
+  mkv: { label: "MKV", codecs: ["h264", "vp9", "av1"] },
+};
+
+// `sortKey` is yt-dlp's name for the codec in --format-sort
+export const VIDEO_CODECS: Record<VideoCodec, { label: string; sortKey: string; encoderArgs: string[] }> = {
+  h264: { label: "H.264", sortKey: "h264", encoderArgs: ["-c:v", "libx264", "-preset", "fast", "-crf", "23"] },
+  vp9: { label: "VP9", sortKey: "vp9", encoderArgs: ["-c:v", "libvpx-vp9", "-crf", "32", "-b:v", "0", "-row-mt", "1"] },
+  av1: { label: "AV1", sortKey: "av01", encoderArgs: ["-c:v", "libaom-av1", "-crf", "32", "-b:v", "0", "-cpu-used", "6", "-row-mt", "1"] },
+};
+
+// Codec used when re-encoding without an explicit choice, and the audio and
+// subtitle codecs that go with the container
+const CONTAINER_DEFAULTS: Record<
+  VideoContainer,
+  { videoCodec: VideoCodec; audioArgs: string[]; subtitleArgs: string[]; formatSort: string | null }
+> = {
+  mp4: { videoCodec: "h264", audioArgs: ["-c:a", "aac", "-b:a", "192k"], subtitleArgs: ["-c:s", "mov_text"], formatSort: "ext:mp4:m4a" },
+  webm: { videoCodec: "vp9", audioArgs: ["-c:a", "libopus", "-b:a", "160k"], subtitleArgs: ["-c:s", "webvtt"], formatSort: "ext:webm:webm" },
+  mkv: { videoCodec: "h264", audioArgs: ["-c:a", "copy"], subtitleArgs: ["-c:s", "copy"], formatSort: null },
+};
+
+export const defaultVideoOptions: VideoOptions = { container: "mp4", videoCodec: null, reencode: false };
+
+export function codecFitsContainer(codec: VideoCodec, container: VideoContainer): boolean {
+  return VIDEO_CONTAINERS[container].codecs.includes(codec);
+}
+
+// Validate video options from a request body; returns null when absent or invalid
+export function parseVideoOptions(value: any): VideoOptions | null {
+  if (!value || typeof value !== "object") return null;
+  if (!Object.hasOwn(VIDEO_CONTAINERS, value.container)) return null;
+
+  const videoCodec = value.videoCodec == null || value.videoCodec === "" ? null : value.videoCodec;
+  if (videoCodec !== null && !Object.hasOwn(VIDEO_CODECS, videoCodec)) return null;
+  if (videoCodec && !codecFitsContainer(videoCodec, value.container)) return null;
+
+  return { container: value.container, videoCodec, reencode: value.reencode === true };
+}
+
+// yt-dlp arguments that prefer streams matching the options and merge them
+// into the container, falling back to MKV when the streams don't fit it
+export function videoFormatArgs(options: VideoOptions): string[] {
+  const sort = [
+    options.videoCodec ? `vcodec:${VIDEO_CODECS[options.videoCodec].sortKey}` : null,
+    CONTAINER_DEFAULTS[options.container].formatSort,
+  ].filter(Boolean);
+
+  return [
+    ...(sort.length > 0 ? ["-S", sort.join(",")] : []),
+    "--merge-output-format",
+    options.container === "mkv" ? "mkv" : `${options.container}/mkv`,
+  ];
+}
+
+// ffmpeg arguments for re-encoding into the chosen container. Tags, chapters
+// and subtitle tracks are carried over; an embedded cover image is dropped
+// rather than re-encoded as if it were the video.
+export function reencodeArgs(options: VideoOptions): string[] {
+  const defaults = CONTAINER_DEFAULTS[options.container];
+  return [
+    "-map", "0:V:0",
+    "-map", "0:a:0?",
+    "-map", "0:s?",
+    "-map_metadata", "0",
+    "-map_chapters", "0",
+    ...VIDEO_CODECS[options.videoCodec ?? defaults.videoCodec].encoderArgs,
+    ...defaults.audioArgs,
+    ...defaults.subtitleArgs,
+  ];
+}
@@ -0,0 +1,13 @@
+// Tagging downloads with the video's metadata, for archiving talks and music
+
+// Extensions yt-dlp can embed a cover image into
+const COVER_ART_EXTENSIONS = ["mp3", "m4a", "opus", "flac", "mp4", "mkv"];
+
+// yt-dlp arguments that write title, uploader, upload date, description, source
+// URL and chapters into the file, plus the thumbnail as cover art when `ext`
+// (the expected output extension) supports it
+export function embedMetadataArgs(ext: string): string[] {
+  const args = ["--embed-metadata", "--embed-chapters"];
+  if (COVER_ART_EXTENSIONS.includes(ext)) args.push("--embed-thumbnail");
+  return args;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { keywordPattern } from "./engagement";
+
+describe("keywordPattern", () => {
+  it("matches whole words only", () => {
+    expect(keywordPattern("top").test("the top ten")).toBe(true);
+    expect(keywordPattern("top").test("don't stop now")).toBe(false);
+    expect(keywordPattern("tip").test("multiple tips")).toBe(false);
+    expect(keywordPattern("how to").test("here's how to do it.")).toBe(true);
+  });
+
+  it("treats accented letters as part of a word", () => {
+    expect(keywordPattern("fou").test("c'est fou!")).toBe(true);
+    expect(keywordPattern("fou").test("un fouet")).toBe(false);
+    expect(keywordPattern("cómo").test("¿cómo?")).toBe(true);
+  });
+
+  it("treats Devanagari vowel signs as part of a word", () => {
+    expect(keywordPattern("सच").test("यह सच है")).toBe(true);
+    expect(keywordPattern("सच").test("सचमुच")).toBe(false);
+    expect(keywordPattern("राज").test("राजा")).toBe(false);
+  });
+
+  it("finds words inside running text in scripts without spaces", () => {
+    expect(keywordPattern("秘密").test("これは秘密です")).toBe(true);
+  });
+
+  it("escapes regular expression characters", () => {
+    expect(keywordPattern("c++").test("learn c++ today")).toBe(true);
+    expect(keywordPattern("a.b").test("axb")).toBe(false);
+  });
+});
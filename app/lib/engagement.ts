@@ -0,0 +1,75 @@
+import { baseLanguage } from "./subtitles";
+
+// Words and phrases that tend to mark a moment worth clipping, per language.
+// Shorts generation scores transcript windows by how many of them appear.
+// Entries are lowercase and matched as whole words (see keywordPattern).
+const ENGAGEMENT_WORDS: Record<string, string[]> = {
+  en: [
+    "amazing", "incredible", "important", "secret", "tip", "trick",
+    "how to", "why", "best", "top", "must", "need", "should",
+    "learn", "discover", "reveal", "truth", "fact", "actually",
+    "surprising", "shocking", "crazy", "insane", "game changer",
+  ],
+  es: [
+    "increíble", "importante", "secreto", "consejo", "truco",
+    "cómo", "por qué", "mejor", "tienes que", "debes", "necesitas",
+    "aprende", "descubre", "verdad", "realmente", "sorprendente",
+    "impactante", "loco", "nunca", "error",
+  ],
+  pt: [
+    "incrível", "importante", "segredo", "dica", "truque",
+    "como fazer", "por que", "melhor", "precisa", "deve",
+    "aprenda", "descubra", "verdade", "na verdade", "surpreendente",
+    "chocante", "louco", "nunca", "erro",
+  ],
+  fr: [
+    "incroyable", "important", "secret", "astuce", "conseil",
+    "comment", "pourquoi", "meilleur", "il faut", "vous devez",
+    "apprendre", "découvrir", "vérité", "en fait", "surprenant",
+    "choquant", "fou", "jamais", "erreur",
+  ],
+  de: [
+    "unglaublich", "wichtig", "geheimnis", "tipp", "trick",
+    "wie man", "warum", "beste", "muss", "solltest", "brauchst",
+    "lernen", "entdecken", "wahrheit", "eigentlich", "überraschend",
+    "schockierend", "verrückt", "niemals", "fehler",
+  ],
+  it: [
+    "incredibile", "importante", "segreto", "consiglio", "trucco",
+    "come fare", "perché", "migliore", "devi", "bisogna",
+    "impara", "scopri", "verità", "in realtà", "sorprendente",
+    "scioccante", "pazzesco", "errore",
+  ],
+  hi: [
+    "कमाल", "ज़रूरी", "जरूरी", "महत्वपूर्ण", "राज़", "राज", "टिप", "तरीका",
+    "कैसे", "क्यों", "सबसे अच्छा", "चाहिए", "सीखो", "सच", "असल में",
+    "हैरान", "चौंकाने", "गलती", "कभी नहीं",
+  ],
+};
+
+// Vocabulary for a transcript language, by its base code (pt-BR uses pt).
+// Empty for languages without a list, which are scored on structure alone.
+export function engagementWords(language: string | null): string[] {
+  return language ? ENGAGEMENT_WORDS[baseLanguage(language)] ?? [] : [];
+}
+
+// Scripts written without spaces between words, where a keyword is found
+// inside running text rather than between separators
+const UNSPACED_SCRIPT = new RegExp(
+  "[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}]",
+  "u"
+);
+
+// Letters, combining marks (Devanagari vowel signs) and digits continue a word
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}]";
+
+// Pattern finding a keyword in lowercase text as a whole word, so "top"
+// doesn't match "stop". Keywords starting or ending in a script without
+// spaces are not bounded on that side.
+export function keywordPattern(word: string): RegExp {
+  const chars = Array.from(word);
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const before = UNSPACED_SCRIPT.test(chars[0] ?? "") ? "" : `(?<!${WORD_CHAR})`;
+  const after = UNSPACED_SCRIPT.test(chars[chars.length - 1] ?? "") ? "" : `(?!${WORD_CHAR})`;
+  return new RegExp(`${before}${escaped}${after}`, "u");
+}
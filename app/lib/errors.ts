@@ -0,0 +1,173 @@
+import { ProcessError } from "./process";
+
+// yt-dlp and ffmpeg failures sorted into a fixed set of causes, so every route
+// answers the same problem with the same code, status and advice.
+
+export type MediaErrorCode =
+  | "private"
+  | "age-restricted"
+  | "login-required"
+  | "geo-blocked"
+  | "removed"
+  | "unsupported-url"
+  | "rate-limited"
+  | "format-unavailable"
+  | "live-not-started"
+  | "tool-missing"
+  | "timeout"
+  | "disk-full"
+  | "no-transcript"
+  | "unknown";
+
+export interface MediaError {
+  code: MediaErrorCode;
+  status: number;
+  // Short description for the user
+  error: string;
+  // What the user (or the server operator) can do about it
+  remediation: string;
+  // The underlying tool output, for logs and bug reports
+  details: string;
+}
+
+const ERRORS: Record<MediaErrorCode, Omit<MediaError, "code" | "details">> = {
+  private: {
+    status: 403,
+    error: "This video is private and cannot be downloaded",
+    remediation: "Ask the owner to make the video public or unlisted, then try again.",
+  },
+  "age-restricted": {
+    status: 403,
+    error: "This video is age-restricted",
+    remediation: "Age-restricted videos need a signed-in account. Configure yt-dlp with cookies from a logged-in browser.",
+  },
+  "login-required": {
+    status: 401,
+    error: "This video requires authentication to view",
+    remediation: "The platform only serves this video to signed-in users. Configure yt-dlp with cookies from a logged-in browser.",
+  },
+  "geo-blocked": {
+    status: 451,
+    error: "Content is geo-blocked or restricted",
+    remediation: "The video is not available from the server's location. Try another video or run the server from a region where it is available.",
+  },
+  removed: {
+    status: 404,
+    error: "Video is unavailable or has been removed",
+    remediation: "Check that the link is correct and the video still exists.",
+  },
+  "unsupported-url": {
+    status: 400,
+    error: "This platform or URL format is not supported",
+    remediation: "Paste a link to a single video, playlist or channel from a supported site.",
+  },
+  "rate-limited": {
+    status: 429,
+    error: "The platform is rate limiting requests",
+    remediation: "Wait a few minutes before trying again. Updating yt-dlp or using cookies can help if this keeps happening.",
+  },
+  "format-unavailable": {
+    status: 422,
+    error: "Requested format is not available",
+    remediation: "Pick a different quality or format.",
+  },
+  "live-not-started": {
+    status: 409,
+    error: "This live stream or premiere has not started yet",
+    remediation: "Try again once the stream has started or the premiere is over.",
+  },
+  "tool-missing": {
+    status: 503,
+    error: "A required tool is not installed on the server",
+    remediation: "Install yt-dlp and ffmpeg on the server and make sure they are in PATH.",
+  },
+  timeout: {
+    status: 504,
+    error: "Request timed out - the platform might be slow or unavailable",
+    remediation: "Try again in a moment. Long videos may take longer to process.",
+  },
+  "disk-full": {
+    status: 507,
+    error: "The server ran out of disk space",
+    remediation: "Free up space in the server's temp directory, or download a shorter clip or lower quality.",
+  },
+  "no-transcript": {
+    status: 422,
+    error: "This video has no subtitles to find clips in",
+    remediation: "Pick a video with subtitles, or configure a speech-to-text backend on the server (ASR_BACKEND).",
+  },
+  unknown: {
+    status: 500,
+    error: "Something went wrong",
+    remediation: "Try again. If it keeps failing, updating yt-dlp often helps.",
+  },
+};
+
+// Checked in order, so more specific messages come first: a bot check also
+// says "Sign in to confirm", an age gate also "Sign in"
+const PATTERNS: Array<[MediaErrorCode, RegExp]> = [
+  ["disk-full", /No space left on device|ENOSPC/i],
+  ["rate-limited", /HTTP Error 429|Too Many Requests|rate[- ]limit|confirm you.re not a bot/i],
+  ["private", /Private video|video is private/i],
+  ["age-restricted", /confirm your age|age[- ]restricted|inappropriate for some users/i],
+  ["login-required", /Sign in to confirm|login required|requires authentication|members[- ]only|Use --cookies|only available for registered users/i],
+  ["geo-blocked", /not available (in|from) your (country|location)|geo[- ]?restrict|geo[- ]?blocked|blocked it in your country/i],
+  ["live-not-started", /live event will begin|Premieres in|Premiere will begin|has not started|is upcoming/i],
+  ["format-unavailable", /Requested format is not available/i],
+  ["unsupported-url", /Unsupported URL|is not a valid URL/i],
+  ["removed", /Video unavailable|has been removed|no longer available|has been terminated|does not exist|HTTP Error 404/i],
+  ["timeout", /timed out/i],
+];
+
+const TOOLS = {
+  "yt-dlp": {
+    error: "yt-dlp is not installed or not in PATH",
+    remediation: "Install yt-dlp on the server (pip install yt-dlp) or point YTDLP_PATH at the binary.",
+  },
+  ffmpeg: {
+    error: "ffmpeg is not installed on the server",
+    remediation: "Install ffmpeg on the server: sudo apt install ffmpeg (Ubuntu/Debian) or brew install ffmpeg (macOS).",
+  },
+};
+
+// Matches ffmpeg reporting itself missing, not any message that mentions it
+const FFMPEG_MISSING = /ffmpeg (is not installed|not found)|ffprobe and ffmpeg not found/i;
+
+// A known failure with its standard text
+export function mediaError(code: MediaErrorCode, details = ""): MediaError {
+  return { code, ...ERRORS[code], details };
+}
+
+// The tool-missing error for one tool, naming it and how to install it
+export function toolMissingError(tool: keyof typeof TOOLS, details = ""): MediaError {
+  return { ...mediaError("tool-missing", details), ...TOOLS[tool] };
+}
+
+// Sort a thrown error into the taxonomy by its process details and output
+export function classifyError(error: unknown): MediaError {
+  const err = error as Partial<ProcessError> & { message?: string };
+  const details = err?.message || String(error);
+  const text = `${details}\n${err?.stderr ?? ""}`;
+
+  if (err?.code === "ENOENT" || FFMPEG_MISSING.test(text)) {
+    const tool = /ffmpeg|ffprobe/i.test(err?.code === "ENOENT" ? details : text) ? "ffmpeg" : "yt-dlp";
+    return toolMissingError(tool, details);
+  }
+  if (err?.code === "ENOSPC") return mediaError("disk-full", details);
+  if (error instanceof ProcessError && error.timedOut) return mediaError("timeout", details);
+
+  const match = PATTERNS.find(([, pattern]) => pattern.test(text));
+  return mediaError(match ? match[0] : "unknown", details);
+}
+
+// The JSON error response for a failure; `fallback` replaces the generic
+// message when the cause is unknown
+export function errorResponse(error: unknown, fallback?: string): Response {
+  return mediaErrorResponse(classifyError(error), fallback);
+}
+
+export function mediaErrorResponse(failure: MediaError, fallback?: string): Response {
+  const { code, status, remediation, details } = failure;
+  const message = code === "unknown" && fallback ? fallback : failure.error;
+  return Response.json({ error: message, code, remediation, details }, { status });
+}
@@ -0,0 +1,125 @@
+// Download filenames built from video metadata, shared by the API routes and the UI
+
+// Placeholders: {title} {uploader} {id} {date} {resolution} {platform} {ext}
+export const DEFAULT_FILENAME_TEMPLATE = "{uploader} - {title} [{id}].{ext}";
+
+export interface FilenameFields {
+  title?: string | null;
+  uploader?: string | null;
+  id?: string | null;
+  // YYYY-MM-DD
+  date?: string | null;
+  resolution?: string | null;
+  platform?: string | null;
+}
+
+// Keeps names well below the 255 byte limit of most filesystems
+const MAX_FILENAME_BYTES = 200;
+
+// Characters that are invalid on Windows, plus control characters
+const INVALID_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// Use the requested template if it looks like one, else the server default
+export function parseFilenameTemplate(value: unknown): string {
+  if (typeof value === "string" && value.includes("{") && value.length <= 200) return value;
+  return process.env.FILENAME_TEMPLATE || DEFAULT_FILENAME_TEMPLATE;
+}
+
+// Make a name safe on Windows, macOS and Linux
+export function sanitizeFilename(name: string, maxBytes = MAX_FILENAME_BYTES): string {
+  let safe = name
+    .normalize("NFC")
+    .replace(INVALID_CHARACTERS, "_")
+    .replace(/\s+/g, " ")
+    // Windows drops trailing dots and spaces, leading dots hide files elsewhere
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+
+  if (RESERVED_NAMES.test(safe)) safe = `_${safe}`;
+
+  // Truncate by bytes without splitting a character
+  while (byteLength(safe) > maxBytes) {
+    safe = Array.from(safe).slice(0, -1).join("").trimEnd();
+  }
+
+  return safe || "download";
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+// "1h02m03s", "2m05s" or "45s"; fractions of a second are kept to one decimal
+function formatOffset(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.round((seconds % 60) * 10) / 10;
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+  if (h > 0) return `${h}h${pad(m)}m${pad(s)}s`;
+  if (m > 0) return `${m}m${pad(s)}s`;
+  return `${s}s`;
+}
+
+export function formatRange(start: number | null, end: number | null): string {
+  return `${formatOffset(start ?? 0)}-${end === null ? "end" : formatOffset(end)}`;
+}
+
+// Render a template into a safe filename. Missing fields are dropped along with
+// the brackets around them; a clip range is appended before the extension.
+export function renderFilename(
+  template: string,
+  fields: FilenameFields,
+  ext: string,
+  range?: { start: number | null; end: number | null } | null
+): string {
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    // Each value on its own, so a "/" in a title can't add a directory
+    if (value) values[key] = String(value).replace(INVALID_CHARACTERS, "_");
+  }
+
+  const stem = template
+    .replace(/\.\{ext\}$/, "")
+    .replace(/\{(\w+)\}/g, (_, key: string) => (key === "ext" ? ext : values[key] ?? ""))
+    .replace(/\[\s*\]|\(\s*\)/g, "")
+    .replace(/^[\s\-_]+|[\s\-_]+$/g, "")
+    .replace(/\s+-\s+(?=-|$)/g, "");
+
+  // Truncate the stem only, so the range and extension always survive
+  const suffix = range ? ` (${formatRange(range.start, range.end)})` : "";
+  const name = sanitizeFilename(stem, MAX_FILENAME_BYTES - byteLength(`${suffix}.${ext}`));
+  return `${name}${suffix}.${ext}`;
+}
+
+// RFC 5987 encoding for filename*=, which also escapes the characters encodeURIComponent leaves alone
+function encodeRfc5987(value: string): string {
+  return encodeURIComponent(value).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// Content-Disposition with an ASCII fallback for old clients and the full
+// UTF-8 name in filename*= so non-ASCII titles survive
+export function contentDisposition(filename: string): string {
+  const fallback = filename
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/["\\]/g, "_");
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeRfc5987(filename)}`;
+}
+
+// Read the filename back out of a Content-Disposition header, preferring filename*=
+export function filenameFromContentDisposition(header: string | null): string | null {
+  if (!header) return null;
+
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1]);
+    } catch {}
+  }
+
+  const plain = header.match(/filename="([^"]*)"/i);
+  return plain ? plain[1] : null;
+}
@@ -0,0 +1,222 @@
+// Normalized view of yt-dlp's `formats` list, shared by /api/video-info and FormatSelector
+
+export interface VideoFormat {
+  id: string;
+  ext: string;
+  // Human readable quality label, e.g. "1080p60 HDR" or "128k"
+  quality: string;
+  vcodec: string | null;
+  acodec: string | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  // Total bitrate in kbps
+  tbr: number | null;
+  hdr: boolean;
+  audioOnly: boolean;
+  videoOnly: boolean;
+  // Bytes; estimated from bitrate and duration when yt-dlp doesn't know it
+  filesize: number | null;
+  filesizeApprox: boolean;
+}
+
+// A ready-made choice for the simple format picker
+export interface FormatOption {
+  // yt-dlp format selector, e.g. "137+140"
+  id: string;
+  label: string;
+  detail: string;
+  filesize: number | null;
+}
+
+function toNumber(value: unknown): number | null {
+  const n = Number(value);
+  return value != null && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (!bytes) return "Unknown size";
+
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
+}
+
+function qualityLabel(format: Pick<VideoFormat, "height" | "fps" | "hdr" | "tbr" | "vcodec">, note?: string): string {
+  if (format.vcodec && format.height) {
+    const fps = format.fps && format.fps > 30 ? Math.round(format.fps) : "";
+    return `${format.height}p${fps}${format.hdr ? " HDR" : ""}`;
+  }
+  if (!format.vcodec && format.tbr) return `${Math.round(format.tbr)}k`;
+  return note || "unknown";
+}
+
+// Convert one raw yt-dlp format entry. Returns null for entries that are not
+// downloadable media (storyboards and the like).
+export function normalizeFormat(raw: any, duration?: number | null): VideoFormat | null {
+  if (!raw || raw.format_id == null || raw.ext === "mhtml") return null;
+
+  // yt-dlp uses "none" for a missing stream; some extractors report no codecs at
+  // all, in which case the format is assumed to carry both audio and video.
+  const codecsUnknown = raw.vcodec == null && raw.acodec == null;
+  const vcodec = raw.vcodec === "none" ? null : raw.vcodec || (codecsUnknown || raw.height ? "unknown" : null);
+  const acodec = raw.acodec === "none" ? null : raw.acodec || (codecsUnknown ? "unknown" : null);
+  if (!vcodec && !acodec) return null;
+
+  const tbr = toNumber(raw.tbr);
+  let filesize = toNumber(raw.filesize);
+  let filesizeApprox = false;
+  if (!filesize) {
+    filesize = toNumber(raw.filesize_approx);
+    if (!filesize && tbr && duration) {
+      // tbr is in kbps: bytes = kbps * 1000 / 8 * seconds
+      filesize = (tbr * 1000 / 8) * duration;
+    }
+    filesizeApprox = !!filesize;
+  }
+
+  const dynamicRange = typeof raw.dynamic_range === "string" ? raw.dynamic_range : null;
+  const format = {
+    id: String(raw.format_id),
+    ext: raw.ext || "unknown",
+    vcodec,
+    acodec,
+    width: toNumber(raw.width),
+    height: toNumber(raw.height),
+    fps: toNumber(raw.fps),
+    tbr,
+    hdr: !!dynamicRange && dynamicRange !== "SDR",
+    audioOnly: !vcodec && !!acodec,
+    videoOnly: !!vcodec && !acodec,
+    filesize: filesize ? Math.round(filesize) : null,
+    filesizeApprox,
+  };
+
+  return { ...format, quality: qualityLabel(format, raw.format_note) };
+}
+
+export function normalizeFormats(rawFormats: any[] | undefined, duration?: number | null): VideoFormat[] {
+  return (rawFormats || [])
+    .map((f) => normalizeFormat(f, duration))
+    .filter((f): f is VideoFormat => f !== null);
+}
+
+// Highest bitrate audio-only stream, preferring m4a since it merges into MP4 without re-encoding
+export function bestAudioFormat(formats: VideoFormat[]): VideoFormat | null {
+  const audio = formats.filter((f) => f.audioOnly);
+  if (audio.length === 0) return null;
+  return audio.reduce((best, f) => {
+    const preferExt = (x: VideoFormat) => (x.ext === "m4a" ? 1 : 0);
+    if (preferExt(f) !== preferExt(best)) return preferExt(f) > preferExt(best) ? f : best;
+    return (f.tbr || 0) > (best.tbr || 0) ? f : best;
+  });
+}
+
+// One option per distinct resolution/frame rate/HDR combination, best first.
+// Video-only streams are paired with the best audio stream.
+export function resolutionOptions(formats: VideoFormat[]): FormatOption[] {
+  const audio = bestAudioFormat(formats);
+  const byQuality = new Map<string, VideoFormat>();
+
+  for (const f of formats) {
+    if (!f.vcodec || !f.height) continue;
+    // A video-only stream is useless without an audio stream to pair it with
+    if (f.videoOnly && !audio) continue;
+    const current = byQuality.get(f.quality);
+    if (!current || (f.tbr || 0) > (current.tbr || 0)) byQuality.set(f.quality, f);
+  }
+
+  return Array.from(byQuality.values())
+    .sort((a, b) => (b.height || 0) - (a.height || 0) || (b.fps || 0) - (a.fps || 0))
+    .map((f) => {
+      const merged = f.videoOnly && audio;
+      const filesize = f.filesize && merged ? f.filesize + (audio.filesize || 0) : f.filesize;
+      return {
+        id: merged ? `${f.id}+${audio.id}` : f.id,
+        label: f.quality,
+        detail: [f.vcodec?.split(".")[0], filesize ? `${f.filesizeApprox ? "~" : ""}${formatFileSize(filesize)}` : null]
+          .filter(Boolean)
+          .join(" • "),
+        filesize,
+      };
+    });
+}
+
+// True if the selector asks yt-dlp to merge separate streams (e.g. "137+140")
+export function isMergedFormat(format: string | undefined): boolean {
+  return !!format && format.includes("+");
+}
+
+// One-line description of a single stream for the advanced picker
+export function describeFormat(format: VideoFormat): string {
+  const codecs = [format.vcodec, format.acodec]
+    .filter((c): c is string => !!c && c !== "unknown")
+    .map((c) => c.split(".")[0]);
+  return [
+    format.id,
+    format.quality,
+    format.ext,
+    codecs.join("+") || null,
+    format.filesize ? `${format.filesizeApprox ? "~" : ""}${formatFileSize(format.filesize)}` : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+// Selector for the best quality up to a height. Separate video and audio streams
+// are preferred, since pre-muxed formats usually stop at 360p/720p.
+export function formatForHeight(maxHeight: number): string {
+  return `bestvideo[height<=${maxHeight}]+bestaudio/best[height<=${maxHeight}]`;
+}
+
+// What yt-dlp reports about the file it actually produced
+export interface DownloadInfo {
+  id: string | null;
+  title: string | null;
+  uploader: string | null;
+  // Upload date as YYYY-MM-DD
+  date: string | null;
+  platform: string | null;
+  // "WIDTHxHEIGHT", which can be lower than asked for when a selector falls back;
+  // null for audio-only output
+  resolution: string | null;
+}
+
+// yt-dlp arguments that write metadata of the chosen format to `file` as JSON
+export function downloadInfoArgs(file: string, when: "before_dl" | "after_move" = "after_move"): string[] {
+  return [
+    "--no-simulate",
+    "--print-to-file",
+    `${when}:%(.{id,title,uploader,channel,upload_date,extractor_key,width,height})j`,
+    file,
+  ];
+}
+
+// Parse what downloadInfoArgs wrote; null if nothing usable was written
+export function parseDownloadInfo(output: string): DownloadInfo | null {
+  const last = output.trim().split("\n").pop()?.trim();
+  if (!last) return null;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(last);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+
+  const text = (value: unknown) => (typeof value === "string" && value && value !== "NA" ? value : null);
+  const date = text(raw.upload_date);
+  const width = toNumber(raw.width);
+  const height = toNumber(raw.height);
+
+  return {
+    id: text(raw.id),
+    title: text(raw.title),
+    uploader: text(raw.uploader) ?? text(raw.channel),
+    date: date && /^\d{8}$/.test(date) ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : null,
+    platform: text(raw.extractor_key),
+    resolution: width && height ? `${width}x${height}` : null,
+  };
+}
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readdir, rm, utimes, writeFile } from "fs/promises";
+import { createHash } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+const FAKE_YTDLP = fileURLToPath(new URL("../../test/fixtures/fake-yt-dlp.js", import.meta.url));
+const TTL_MS = 60 * 1000;
+
+// The cache directory, TTL and yt-dlp path are read when the modules load
+let cache: typeof import("./info-cache");
+let dir: string;
+
+const diskName = (key: string) => `${createHash("sha256").update(key).digest("hex")}.json`;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "info-cache-test-"));
+  vi.stubEnv("INFO_CACHE_DIR", dir);
+  vi.stubEnv("INFO_CACHE_TTL_MS", String(TTL_MS));
+  vi.stubEnv("YTDLP_PATH", FAKE_YTDLP);
+  vi.resetModules();
+  cache = await import("./info-cache");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("video info disk cache", () => {
+  it("prunes expired files when writing a new entry", async () => {
+    const old = new Date(Date.now() - 2 * TTL_MS);
+    await writeFile(join(dir, "stale.json"), "{}");
+    await utimes(join(dir, "stale.json"), old, old);
+    await writeFile(join(dir, "recent.json"), "{}");
+
+    const cached = await cache.getCachedInfo("https://www.youtube.com/watch?v=dQw4w9WgXcQ");
+    expect(cached.status).toBe("miss");
+
+    const files = await readdir(dir);
+    expect(files).not.toContain("stale.json");
+    expect(files).toContain("recent.json");
+    expect(files).toContain(diskName("youtube:dQw4w9WgXcQ"));
+  });
+
+  it("fetches again instead of using an expired file", async () => {
+    const key = "youtube:abcdefghijk";
+    const fetchedAt = Date.now() - 2 * TTL_MS;
+    await writeFile(join(dir, diskName(key)), JSON.stringify({ key, info: { title: "Old" }, fetchedAt }));
+
+    const cached = await cache.getCachedInfo("https://www.youtube.com/watch?v=abcdefghijk");
+    expect(cached.status).toBe("miss");
+    expect(cached.fetchedAt).toBeGreaterThan(fetchedAt);
+  });
+});
@@ -0,0 +1,191 @@
+import { mkdir, readFile, writeFile, rename, rm, readdir, stat } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createHash } from "crypto";
+import { getInfo, type VideoInfo } from "./ytdlp";
+import { CancelledError } from "./process";
+import { normalizeUrl } from "./urls";
+
+// Video metadata shared by every route that needs it. Opening /video, then
+// generating shorts or listing thumbnails and subtitles for the same URL reads
+// the metadata once instead of running yt-dlp for each request.
+
+// "hit" came from memory or disk, "coalesced" joined a lookup already running
+export type CacheStatus = "hit" | "miss" | "coalesced";
+
+export interface CachedInfo {
+  info: VideoInfo;
+  status: CacheStatus;
+  // When yt-dlp produced the metadata (ms since epoch)
+  fetchedAt: number;
+}
+
+interface Entry {
+  info: VideoInfo;
+  fetchedAt: number;
+}
+
+interface Lookup {
+  entry: Entry;
+  // Found on disk rather than fetched
+  stored: boolean;
+}
+
+// Format URLs in the metadata expire after a few hours, so entries go stale well before that
+export const INFO_CACHE_TTL_MS = Number(process.env.INFO_CACHE_TTL_MS) || 30 * 60 * 1000;
+
+const CACHE_DIR = process.env.INFO_CACHE_DIR || join(tmpdir(), "video-info-cache");
+
+// Entries kept in memory; older ones are still found on disk
+const MAX_MEMORY_ENTRIES = 200;
+
+// Files kept on disk, and how often writes sweep out expired and excess ones
+const MAX_DISK_ENTRIES = 2000;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+const LOOKUP_TIMEOUT_MS = 45000;
+
+// Keep the cache on globalThis so it survives module reloads in dev
+const globalForCache = globalThis as unknown as {
+  __infoEntries?: Map<string, Entry>;
+  __infoLookups?: Map<string, Promise<Lookup>>;
+  __infoPrunedAt?: number;
+};
+const entries: Map<string, Entry> = globalForCache.__infoEntries ?? (globalForCache.__infoEntries = new Map());
+// Lookups in progress, for concurrent requests to join
+const lookups: Map<string, Promise<Lookup>> =
+  globalForCache.__infoLookups ?? (globalForCache.__infoLookups = new Map());
+
+// The same video behind different URLs (youtu.be, /shorts/, tracking
+// parameters) shares one entry
+export function infoCacheKey(url: string): string {
+  const normalized = normalizeUrl(url);
+  if (!normalized) return url;
+  return normalized.platform && normalized.id ? `${normalized.platform}:${normalized.id}` : normalized.canonicalUrl;
+}
+
+function isFresh(entry: Entry): boolean {
+  return Date.now() - entry.fetchedAt < INFO_CACHE_TTL_MS;
+}
+
+function remember(key: string, entry: Entry) {
+  entries.delete(key);
+  entries.set(key, entry);
+  // Maps iterate in insertion order, so the first key is the least recently used
+  if (entries.size > MAX_MEMORY_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+function diskPath(key: string): string {
+  return join(CACHE_DIR, `${createHash("sha256").update(key).digest("hex")}.json`);
+}
+
+// A fresh entry from disk; expired ones are deleted
+async function readDisk(key: string): Promise<Entry | null> {
+  const path = diskPath(key);
+  try {
+    const entry = JSON.parse(await readFile(path, "utf-8"));
+    if (entry?.key !== key || !entry.info || typeof entry.fetchedAt !== "number") return null;
+    const stored = { info: entry.info, fetchedAt: entry.fetchedAt };
+    if (isFresh(stored)) return stored;
+    await rm(path, { force: true });
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Delete expired files, then the oldest ones past MAX_DISK_ENTRIES. Files are
+// dated by when they were written, which is when their metadata was fetched.
+async function pruneDisk() {
+  const now = Date.now();
+  if (now - (globalForCache.__infoPrunedAt ?? 0) < PRUNE_INTERVAL_MS) return;
+  globalForCache.__infoPrunedAt = now;
+
+  try {
+    const files = await Promise.all(
+      (await readdir(CACHE_DIR)).map(async (name) => {
+        const path = join(CACHE_DIR, name);
+        return { path, modified: (await stat(path).catch(() => null))?.mtimeMs ?? 0 };
+      })
+    );
+    files.sort((a, b) => b.modified - a.modified);
+    const expired = files.filter((file, index) => index >= MAX_DISK_ENTRIES || now - file.modified >= INFO_CACHE_TTL_MS);
+    await Promise.all(expired.map((file) => rm(file.path, { force: true })));
+  } catch (error) {
+    console.warn("Failed to prune video info cache:", error);
+  }
+}
+
+async function writeDisk(key: string, entry: Entry) {
+  const path = diskPath(key);
+  // Written aside and renamed, so a crash never leaves half a file to be read later
+  const partial = `${path}.${process.pid}.tmp`;
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    await writeFile(partial, JSON.stringify({ key, ...entry }));
+    await rename(partial, path);
+  } catch (error) {
+    console.warn("Failed to write video info cache:", error);
+    await rm(partial, { force: true }).catch(() => {});
+  }
+  await pruneDisk();
+}
+
+async function lookup(key: string, url: string): Promise<Lookup> {
+  const stored = await readDisk(key);
+  if (stored) return { entry: stored, stored: true };
+
+  // The same options /api/video-info has always used: no local yt-dlp config,
+  // playlists listed flat, and partial metadata kept when yt-dlp exits non-zero
+  const info = await getInfo(url, { noConfig: true, flatPlaylist: true, ignoreErrors: true, timeout: LOOKUP_TIMEOUT_MS });
+  const entry = { info, fetchedAt: Date.now() };
+  await writeDisk(key, entry);
+  return { entry, stored: false };
+}
+
+// Reject when `signal` aborts without stopping the shared lookup, which other
+// requests may still be waiting for
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+// Metadata for a URL from memory, disk or yt-dlp, in that order. Concurrent
+// calls for the same video share one yt-dlp process. Failures are not cached.
+export async function getCachedInfo(url: string, options: { signal?: AbortSignal } = {}): Promise<CachedInfo> {
+  const key = infoCacheKey(url);
+
+  const cached = entries.get(key);
+  if (cached && isFresh(cached)) {
+    remember(key, cached);
+    return { ...cached, status: "hit" };
+  }
+
+  let pending = lookups.get(key);
+  const coalesced = !!pending;
+  if (!pending) {
+    pending = lookup(key, url).finally(() => lookups.delete(key));
+    lookups.set(key, pending);
+  }
+
+  const { entry, stored } = await abortable(pending, options.signal);
+  remember(key, entry);
+  return { ...entry, status: coalesced ? "coalesced" : stored ? "hit" : "miss" };
+}
+
+// Headers telling the client whether the metadata was cached and how old it is
+export function cacheHeaders(cached: CachedInfo): Record<string, string> {
+  const age = Math.max(0, Math.floor((Date.now() - cached.fetchedAt) / 1000));
+  return {
+    "X-Cache": cached.status.toUpperCase(),
+    Age: String(age),
+    "Cache-Control": `private, max-age=${Math.max(0, Math.floor(INFO_CACHE_TTL_MS / 1000) - age)}`,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseJobRequest } from "./job-requests";
+
+const VIDEO = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+
+describe("parseJobRequest", () => {
+  it.each([
+    ["format", { type: "download", url: VIDEO, format: ["best"] }],
+    ["startTime", { type: "download", url: VIDEO, startTime: -5 }],
+    ["endTime", { type: "download", url: VIDEO, endTime: { at: 1 } }],
+    ["unreadable startTime", { type: "download", url: VIDEO, startTime: "1:xx" }],
+    ["quality", { type: "short", url: VIDEO, start: 0, end: 30, quality: 720 }],
+    ["segments", { type: "short", url: VIDEO, start: 0, end: 30, segments: "hello" }],
+    ["segment shape", { type: "short", url: VIDEO, start: 0, end: 30, segments: [{ start: 0, text: "hi" }] }],
+    ["word shape", { type: "short", url: VIDEO, start: 0, end: 30, segments: [{ start: 0, end: 1, text: "hi", words: [1] }] }],
+    ["captionStyle", { type: "short", url: VIDEO, start: 0, end: 30, captionStyle: "bold" }],
+    ["item title", { type: "batch", items: [{ url: VIDEO, title: ["x"] }] }],
+    ["item", { type: "batch", items: [VIDEO] }],
+    ["name", { type: "batch", items: [{ url: VIDEO }], name: 5 }],
+  ])("rejects a wrongly typed %s", (_, body) => {
+    expect(parseJobRequest(body)).toHaveProperty("error");
+  });
+
+  it("keeps well-formed short segments and drops unknown fields", () => {
+    const request = parseJobRequest({
+      type: "short",
+      url: VIDEO,
+      start: 10,
+      end: 40,
+      quality: "1080",
+      segments: [{ start: 0, end: 2, text: "hi there", words: [{ start: 0, end: 1, text: "hi", extra: true }] }],
+    });
+    expect(request).toMatchObject({
+      type: "short",
+      quality: "1080",
+      segments: [{ start: 0, end: 2, text: "hi there", words: [{ start: 0, end: 1, text: "hi" }] }],
+    });
+    expect(JSON.stringify(request)).not.toContain("extra");
+  });
+
+  it("accepts clip times given as a number of seconds", () => {
+    expect(parseJobRequest({ type: "download", url: VIDEO, startTime: 90, endTime: "2:00" })).toMatchObject({
+      type: "download",
+      startTime: 90,
+      endTime: "2:00",
+    });
+  });
+
+  it("accepts batch items with and without titles", () => {
+    expect(parseJobRequest({ type: "batch", items: [{ url: VIDEO, title: "One" }, { url: VIDEO }] })).toMatchObject({
+      type: "batch",
+      items: [{ url: VIDEO, title: "One" }, { url: VIDEO, title: undefined }],
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import type { JobRequest, BatchJobRequest } from "./jobs";
+import type { TranscriptSegment, TranscriptWord } from "./shorts-export";
+import { parseCutMode } from "./clip";
+import { parseAudioOptions } from "./audio";
+import { parseVideoOptions, defaultVideoOptions } from "./container";
+import { parseFilenameTemplate } from "./filename";
+import { parseSubtitleLangs, subtitleEmbedError } from "./subtitles";
+import { MAX_PLAYLIST_ENTRIES } from "./playlist";
+import { parseMediaUrl } from "./urls";
+import { parseTimeToSeconds } from "./utils";
+import { platformError } from "./url-guard";
+
+// Validation of job requests from untrusted JSON, shared by /api/jobs and /api/zip
+
+// Options that end up in yt-dlp's arguments or string handling must be
+// strings when given; anything else is a bad request, not a failed job
+function isOptionalString(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === "string";
+}
+
+// A clip start or end: left out, a number of seconds, or a time string
+function isTimeOrEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  return (typeof value === "string" || typeof value === "number") && parseTimeToSeconds(value) !== null;
+}
+
+function isTimedText(value: any): value is TranscriptWord {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Number.isFinite(value.start) &&
+    Number.isFinite(value.end) &&
+    typeof value.text === "string"
+  );
+}
+
+// Caption segments burned into a short: { start, end, text, words? }
+function parseSegments(value: unknown): TranscriptSegment[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+  const segments: TranscriptSegment[] = [];
+  for (const segment of value) {
+    if (!isTimedText(segment)) return null;
+    const words = (segment as TranscriptSegment).words;
+    if (words !== undefined && !(Array.isArray(words) && words.every(isTimedText))) return null;
+    segments.push({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      ...(words && { words: words.map(({ start, end, text }) => ({ start, end, text })) }),
+    });
+  }
+  return segments;
+}
+
+// Check a request body and turn it into a job request, or say what is wrong with it
+export function parseJobRequest(body: any): JobRequest | { error: string } {
+  const type = body?.type || "download";
+
+  // Batch jobs carry their URLs in `items`
+  let url = "";
+  if (type !== "batch") {
+    if (!body?.url) {
+      return { error: "URL is required" };
+    }
+    const parsed = parseMediaUrl(body.url);
+    if (!parsed) {
+      return { error: "Invalid URL" };
+    }
+    const blocked = platformError(parsed);
+    if (blocked) return { error: blocked };
+    url = parsed;
+  }
+
+  if (type === "download" || type === "batch") {
+    // An unreadable time would silently turn the clip into a full download
+    if (!isTimeOrEmpty(body.startTime) || !isTimeOrEmpty(body.endTime)) {
+      return { error: "Invalid time format, use seconds, mm:ss or hh:mm:ss" };
+    }
+    const clipping = type === "download" && !!(body.startTime || body.endTime);
+    const options = parseDownloadOptions(body, clipping);
+    if ("error" in options) return options;
+
+    if (type === "download") {
+      return {
+        type: "download",
+        url,
+        startTime: body.startTime || undefined,
+        endTime: body.endTime || undefined,
+        cutMode: parseCutMode(body.cutMode),
+        ...options,
+      };
+    }
+
+    const rawItems: unknown[] = Array.isArray(body.items) ? body.items : [];
+    if (rawItems.length === 0) {
+      return { error: "At least one item is required" };
+    }
+    if (rawItems.length > MAX_PLAYLIST_ENTRIES) {
+      return { error: `At most ${MAX_PLAYLIST_ENTRIES} items can be downloaded at once` };
+    }
+    const items: BatchJobRequest["items"] = [];
+    for (const item of rawItems as any[]) {
+      const itemUrl = parseMediaUrl(item?.url);
+      if (!itemUrl) {
+        return { error: "Invalid URL in items" };
+      }
+      if (!isOptionalString(item.title)) {
+        return { error: "Item titles must be strings" };
+      }
+      const blocked = platformError(itemUrl);
+      if (blocked) {
+        return { error: blocked };
+      }
+      items.push({ url: itemUrl, title: item.title || undefined });
+    }
+    if (!isOptionalString(body.name)) {
+      return { error: "The archive name must be a string" };
+    }
+    return {
+      type: "batch",
+      items,
+      name: body.name || undefined,
+      ...options,
+    };
+  }
+
+  if (type === "short") {
+    const start = Number(body.start ?? 0);
+    const end = Number(body.end ?? 60);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+      return { error: "Invalid time range" };
+    }
+    if (!isOptionalString(body.quality)) {
+      return { error: "Quality must be a string" };
+    }
+    const segments = parseSegments(body.segments);
+    if (!segments) {
+      return { error: "Segments must be a list of { start, end, text } captions" };
+    }
+    const captionStyle = body.captionStyle ?? null;
+    if (captionStyle !== null && (typeof captionStyle !== "object" || Array.isArray(captionStyle))) {
+      return { error: "Invalid caption style" };
+    }
+    return {
+      type: "short",
+      url,
+      start,
+      end,
+      quality: body.quality || undefined,
+      segments,
+      captionStyle,
+      filenameTemplate: parseFilenameTemplate(body.filenameTemplate),
+    };
+  }
+
+  return { error: `Unknown job type: ${type}` };
+}
+
+type DownloadOptions = Omit<BatchJobRequest, "type" | "items" | "name">;
+
+// Format, audio, video, naming and embedding options shared by download and batch jobs
+function parseDownloadOptions(body: any, clipping: boolean): DownloadOptions | { error: string } {
+  if (!isOptionalString(body.format)) {
+    return { error: "Format must be a string" };
+  }
+  const video = parseVideoOptions(body.video);
+  if (body.video && !video) {
+    return { error: "Invalid video options" };
+  }
+  const audio = parseAudioOptions(body.audio);
+  const subtitles = parseSubtitleLangs(body.subtitles);
+  if (!subtitles) {
+    return { error: "Invalid subtitle languages" };
+  }
+  if (subtitles.length > 0) {
+    const subtitleError = subtitleEmbedError({
+      audio: !!audio,
+      container: (video ?? defaultVideoOptions).container,
+      clipping,
+    });
+    if (subtitleError) {
+      return { error: subtitleError };
+    }
+  }
+
+  return {
+    format: body.format || undefined,
+    audio,
+    video,
+    filenameTemplate: parseFilenameTemplate(body.filenameTemplate),
+    embedMetadata: body.embedMetadata === true,
+    subtitles,
+  };
+}
@@ -0,0 +1,86 @@
+import type { JobRequest, JobSnapshot } from "./jobs";
+
+// Start a job and follow its progress until it finishes. Resolves with the
+// final snapshot, rejects with the job's error message if it failed. Aborting
+// `signal` cancels the job on the server and rejects with an AbortError.
+export async function runJob(
+  request: JobRequest,
+  onUpdate: (snapshot: JobSnapshot) => void,
+  signal?: AbortSignal
+): Promise<JobSnapshot> {
+  const response = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to start job");
+  }
+
+  const job: JobSnapshot = await response.json();
+  onUpdate(job);
+
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/jobs/${job.id}/events`);
+
+    const onAbort = () => {
+      events.close();
+      fetch(`/api/jobs/${job.id}`, { method: "DELETE" }).catch(() => {});
+      reject(new DOMException("Cancelled", "AbortError"));
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const finish = () => {
+      events.close();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    events.addEventListener("progress", (e) => {
+      onUpdate(JSON.parse((e as MessageEvent).data));
+    });
+
+    events.addEventListener("done", (e) => {
+      const snapshot: JobSnapshot = JSON.parse((e as MessageEvent).data);
+      finish();
+      onUpdate(snapshot);
+      resolve(snapshot);
+    });
+
+    events.addEventListener("failed", (e) => {
+      const snapshot: JobSnapshot = JSON.parse((e as MessageEvent).data);
+      finish();
+      onUpdate(snapshot);
+      reject(new Error(snapshot.error || "Job failed"));
+    });
+
+    events.addEventListener("cancelled", () => {
+      finish();
+      reject(new DOMException("Cancelled", "AbortError"));
+    });
+
+    events.onerror = () => {
+      // EventSource retries on its own; only give up once it stops trying
+      if (events.readyState === EventSource.CLOSED) {
+        signal?.removeEventListener("abort", onAbort);
+        reject(new Error("Lost connection to the server"));
+      }
+    };
+  });
+}
+
+// Let the browser download a finished job's file directly, without buffering it
+export function downloadJobFile(job: JobSnapshot, filename?: string) {
+  const link = document.createElement("a");
+  link.href = `/api/jobs/${job.id}/file`;
+  link.download = filename || job.filename || "";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
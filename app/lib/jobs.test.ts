@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { fileURLToPath } from "url";
+
+const FAKE_YTDLP = fileURLToPath(new URL("../../test/fixtures/fake-yt-dlp.js", import.meta.url));
+const VIDEO = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+
+// The concurrency limit and yt-dlp path are read when the modules load
+let jobs: typeof import("./jobs");
+
+beforeAll(async () => {
+  vi.stubEnv("MAX_CONCURRENT_JOBS", "1");
+  vi.stubEnv("YTDLP_PATH", FAKE_YTDLP);
+  vi.resetModules();
+  jobs = await import("./jobs");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("job queue", () => {
+  it("runs one job at a time and starts the next when a slot frees up", async () => {
+    const first = jobs.createJob({ type: "download", url: VIDEO });
+    const second = jobs.createJob({ type: "download", url: VIDEO });
+    const third = jobs.createJob({ type: "download", url: VIDEO });
+
+    expect(jobs.getJob(first.id)?.status).toBe("running");
+    expect(jobs.getJob(second.id)?.status).toBe("queued");
+    expect(jobs.getJob(third.id)?.status).toBe("queued");
+
+    // Cancelling a waiting job takes it out of the queue without starting it
+    expect(await jobs.cancelJob(second.id)).toBe(true);
+    expect(jobs.getJob(second.id)?.status).toBe("cancelled");
+    expect(jobs.getJob(third.id)?.status).toBe("queued");
+
+    expect(await jobs.cancelJob(first.id)).toBe(true);
+    await vi.waitFor(() => expect(jobs.getJob(third.id)?.status).not.toBe("queued"));
+
+    // A cancelled job stays cancelled once its run winds down
+    expect(jobs.getJob(first.id)?.status).toBe("cancelled");
+    expect(jobs.getJob(second.id)?.status).toBe("cancelled");
+
+    await jobs.cancelJob(third.id);
+    await vi.waitFor(() => expect(jobs.getJob(third.id)?.status).not.toBe("running"));
+  });
+});
+
+describe("job slots", () => {
+  // Holds the only slot until the returned function is called
+  async function holdSlot(): Promise<() => Promise<void>> {
+    let release: (() => void) | undefined;
+    const held = jobs.withJobSlot(() => new Promise<void>((resolve) => (release = resolve)), new AbortController().signal);
+    await vi.waitFor(() => expect(release).toBeDefined());
+    return () => {
+      release!();
+      return held;
+    };
+  }
+
+  it("makes jobs wait while other work holds the slot", async () => {
+    const release = await holdSlot();
+    const job = jobs.createJob({ type: "download", url: VIDEO });
+    expect(jobs.getJob(job.id)?.status).toBe("queued");
+
+    await release();
+    await vi.waitFor(() => expect(jobs.getJob(job.id)?.status).toBe("completed"));
+  });
+
+  it("runs work waiting for a slot in turn, skipping work given up on", async () => {
+    const release = await holdSlot();
+    const controller = new AbortController();
+    const abandoned = vi.fn(async () => "abandoned");
+    const waiting = jobs.withJobSlot(abandoned, controller.signal);
+    const next = jobs.withJobSlot(async () => "next", new AbortController().signal);
+
+    controller.abort();
+    await expect(waiting).rejects.toThrow("Cancelled");
+    await release();
+    await expect(next).resolves.toBe("next");
+    expect(abandoned).not.toHaveBeenCalled();
+  });
+});
+
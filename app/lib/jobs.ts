@@ -0,0 +1,485 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { JobProgress } from "./progress";
+import { exportShort, type TranscriptSegment, type CaptionStyleConfig } from "./shorts-export";
+import { parseTimeToSeconds } from "./utils";
+import { CLIPPING_STATUS, type CutMode } from "./clip";
+import { audioExtractArgs, type AudioOptions } from "./audio";
+import { downloadInfoArgs, parseDownloadInfo } from "./formats";
+import { renderFilename, DEFAULT_FILENAME_TEMPLATE } from "./filename";
+import { videoFormatArgs, defaultVideoOptions, type VideoOptions } from "./container";
+import { sniffFile, reencodeVideo } from "./media";
+import { embedMetadataArgs } from "./embed";
+import { download, downloadSections } from "./ytdlp";
+import { CancelledError } from "./process";
+import { embedSubtitleArgs } from "./subtitles";
+
+export type { JobProgress, JobPhase } from "./progress";
+
+export type JobKind = "download" | "clip" | "short" | "batch";
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface DownloadJobRequest {
+  type: "download";
+  url: string;
+  format?: string;
+  // Seconds, or "ss", "mm:ss" or "hh:mm:ss"
+  startTime?: string | number;
+  endTime?: string | number;
+  cutMode?: CutMode;
+  audio?: AudioOptions | null;
+  video?: VideoOptions | null;
+  filenameTemplate?: string;
+  // Tag the file with title, uploader, chapters and cover art
+  embedMetadata?: boolean;
+  // Subtitle languages to mux into the file (full MP4/MKV downloads only)
+  subtitles?: string[];
+}
+
+export interface ShortJobRequest {
+  type: "short";
+  url: string;
+  start: number;
+  end: number;
+  quality?: string;
+  segments?: TranscriptSegment[];
+  captionStyle?: CaptionStyleConfig | null;
+  filenameTemplate?: string;
+}
+
+// Several videos downloaded one after another with the same options, e.g. the
+// selected items of a playlist. The result is served as a ZIP archive.
+export interface BatchJobRequest extends Omit<DownloadJobRequest, "type" | "url" | "startTime" | "endTime" | "cutMode"> {
+  type: "batch";
+  items: { url: string; title?: string }[];
+  // Archive name, e.g. the playlist title
+  name?: string;
+}
+
+export type JobRequest = DownloadJobRequest | ShortJobRequest | BatchJobRequest;
+
+export interface BatchItemSnapshot {
+  url: string;
+  title: string | null;
+  status: "queued" | "running" | "completed" | "failed";
+  filename: string | null;
+  error: string | null;
+}
+
+// What clients see of a job, over SSE and from POST /api/jobs
+export interface JobSnapshot {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  progress: JobProgress;
+  error: string | null;
+  filename: string | null;
+  // "WIDTHxHEIGHT" of the finished video, which may be lower than requested
+  resolution: string | null;
+  // Per-item status of batch jobs, null for other kinds
+  items: BatchItemSnapshot[] | null;
+}
+
+// A finished file of a batch job, the name it gets inside the archive and where it came from
+export interface BatchFile {
+  path: string;
+  name: string;
+  url: string;
+}
+
+interface Job extends JobSnapshot {
+  request: JobRequest;
+  workDir: string;
+  filePath: string | null;
+  contentType: string;
+  // X-Clipping-Status value for clip jobs
+  clippingStatus: string | null;
+  // Finished files of a batch job and their names inside the archive
+  files: BatchFile[];
+  events: EventEmitter;
+  abort: AbortController;
+}
+
+// Finished jobs (and their files) are kept around this long for the client to fetch
+const JOB_TTL_MS = 30 * 60 * 1000;
+
+// Jobs run at most this many at a time, each with its own yt-dlp/ffmpeg
+// processes; the rest wait in order with status "queued"
+const MAX_RUNNING_JOBS = Math.max(1, Number(process.env.MAX_CONCURRENT_JOBS) || 2);
+
+// Work waiting for a slot: a job, or a download run for someone else (a ZIP
+// archive item) that counts against the same limit
+interface QueuedTask {
+  job: Job | null;
+  run: () => Promise<void>;
+}
+
+interface JobQueue {
+  waiting: QueuedTask[];
+  running: number;
+}
+
+// Keep the registry and queue on globalThis so they survive module reloads in dev
+const globalForJobs = globalThis as unknown as { __downloadJobs?: Map<string, Job>; __jobQueue?: JobQueue };
+const jobs = globalForJobs.__downloadJobs ?? (globalForJobs.__downloadJobs = new Map());
+const queue = globalForJobs.__jobQueue ?? (globalForJobs.__jobQueue = { waiting: [], running: 0 });
+
+function toSnapshot(job: Job): JobSnapshot {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    filename: job.filename,
+    resolution: job.resolution,
+    items: job.items,
+  };
+}
+
+function update(job: Job, changes: Partial<Pick<Job, "status" | "error" | "filename" | "resolution">>, progress?: Partial<JobProgress>) {
+  Object.assign(job, changes);
+  if (progress) job.progress = { ...job.progress, ...progress };
+  job.events.emit("update", toSnapshot(job));
+}
+
+export function createJob(request: JobRequest): JobSnapshot {
+  const id = randomUUID();
+  const kind: JobKind =
+    request.type === "short" || request.type === "batch"
+      ? request.type
+      : request.startTime || request.endTime ? "clip" : "download";
+
+  const job: Job = {
+    request,
+    id,
+    kind,
+    status: "queued",
+    progress: { phase: "queued", percent: null, speed: null, eta: null },
+    error: null,
+    filename: null,
+    resolution: null,
+    items:
+      request.type === "batch"
+        ? request.items.map((item) => ({ url: item.url, title: item.title ?? null, status: "queued", filename: null, error: null }))
+        : null,
+    workDir: join(tmpdir(), `job-${id}`),
+    filePath: null,
+    contentType: "application/octet-stream",
+    clippingStatus: null,
+    files: [],
+    events: new EventEmitter(),
+    abort: new AbortController(),
+  };
+  jobs.set(id, job);
+  queue.waiting.push({ job, run: () => runJob(job, request).finally(() => scheduleRemoval(id)) });
+  startQueuedJobs();
+
+  return toSnapshot(job);
+}
+
+// Start waiting tasks while fewer than MAX_RUNNING_JOBS are running
+function startQueuedJobs() {
+  while (queue.running < MAX_RUNNING_JOBS && queue.waiting.length > 0) {
+    const task = queue.waiting.shift()!;
+    queue.running++;
+    task.run().finally(() => {
+      queue.running--;
+      startQueuedJobs();
+    });
+  }
+}
+
+// Run `task` once a job slot is free, holding the slot until it settles, so
+// work done outside of jobs can't get around MAX_CONCURRENT_JOBS. Aborting
+// `signal` while waiting gives up the place in the queue.
+export function withJobSlot<T>(task: () => Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new CancelledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      const index = queue.waiting.indexOf(queued);
+      if (index >= 0) queue.waiting.splice(index, 1);
+      reject(new CancelledError());
+    };
+    const queued: QueuedTask = {
+      job: null,
+      run: () => {
+        signal.removeEventListener("abort", onAbort);
+        return task().then(resolve, reject);
+      },
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    queue.waiting.push(queued);
+    startQueuedJobs();
+  });
+}
+
+function scheduleRemoval(id: string) {
+  setTimeout(() => removeJob(id), JOB_TTL_MS).unref?.();
+}
+
+export function getJob(id: string): JobSnapshot | null {
+  const job = jobs.get(id);
+  return job ? toSnapshot(job) : null;
+}
+
+// Location and type of a completed job's output, or null if it isn't ready
+export function getJobFile(
+  id: string
+): {
+  path: string;
+  filename: string;
+  contentType: string;
+  clippingStatus: string | null;
+  resolution: string | null;
+  // What was asked for, e.g. for describing the file in an archive manifest
+  request: JobRequest;
+  // Batch jobs have no single file; their files are archived on the fly
+  entries: BatchFile[] | null;
+} | null {
+  const job = jobs.get(id);
+  if (!job || job.status !== "completed" || !job.filename) return null;
+  if (job.kind !== "batch" && !job.filePath) return null;
+  return {
+    path: job.filePath ?? job.workDir,
+    filename: job.filename,
+    contentType: job.contentType,
+    clippingStatus: job.clippingStatus,
+    resolution: job.resolution,
+    request: job.request,
+    entries: job.kind === "batch" ? job.files : null,
+  };
+}
+
+// Listen for snapshot updates; returns an unsubscribe function
+export function subscribeToJob(id: string, listener: (snapshot: JobSnapshot) => void): () => void {
+  const job = jobs.get(id);
+  if (!job) return () => {};
+  job.events.on("update", listener);
+  return () => job.events.off("update", listener);
+}
+
+// Stop a queued or running job, kill its processes and delete its files.
+// Returns false if there is no such job or it had already finished.
+export async function cancelJob(id: string): Promise<boolean> {
+  const job = jobs.get(id);
+  if (!job || (job.status !== "queued" && job.status !== "running")) return false;
+
+  job.abort.abort();
+  update(job, { status: "cancelled", error: "Cancelled" });
+  // A job that never started leaves the queue here; a running one when runJob returns
+  const waiting = queue.waiting.findIndex((task) => task.job === job);
+  if (waiting >= 0) {
+    queue.waiting.splice(waiting, 1);
+    scheduleRemoval(id);
+  }
+  await rm(job.workDir, { recursive: true, force: true }).catch(() => {});
+  return true;
+}
+
+async function removeJob(id: string) {
+  const job = jobs.get(id);
+  if (!job) return;
+  jobs.delete(id);
+  job.events.removeAllListeners();
+  await rm(job.workDir, { recursive: true, force: true }).catch(() => {});
+}
+
+async function runJob(job: Job, request: JobRequest) {
+  update(job, { status: "running" });
+  try {
+    await mkdir(job.workDir, { recursive: true });
+
+    if (request.type === "short") {
+      await runShortJob(job, request);
+    } else if (request.type === "batch") {
+      await runBatchJob(job, request);
+    } else {
+      await runDownloadJob(job, request);
+    }
+
+    // Cancelled just as the last step finished: cancelJob has deleted the files
+    job.abort.signal.throwIfAborted();
+    update(job, { status: "completed" }, { phase: "finished", percent: 100, eta: 0 });
+  } catch (error: any) {
+    // cancelJob already reported the cancellation; remove anything the
+    // killed processes wrote after it cleaned up
+    if (job.abort.signal.aborted) {
+      await rm(job.workDir, { recursive: true, force: true }).catch(() => {});
+      return;
+    }
+    console.error(`Job ${job.id} failed:`, error);
+    update(job, { status: "failed", error: error.message || "Job failed" });
+  }
+}
+
+async function runDownloadJob(job: Job, request: DownloadJobRequest) {
+  const result = await downloadVideo(request, job.workDir, job.kind === "clip", job.abort.signal, (progress) =>
+    update(job, {}, progress)
+  );
+  job.filePath = result.path;
+  job.contentType = result.contentType;
+  job.clippingStatus = result.clippingStatus;
+  update(job, { filename: result.filename, resolution: result.resolution });
+}
+
+export interface DownloadResult {
+  path: string;
+  filename: string;
+  contentType: string;
+  clippingStatus: string | null;
+  resolution: string | null;
+}
+
+// Download one video into workDir with yt-dlp (and ffmpeg for re-encodes)
+export async function downloadVideo(
+  request: DownloadJobRequest,
+  workDir: string,
+  clip: boolean,
+  signal: AbortSignal,
+  onProgress: (progress: Partial<JobProgress>) => void
+): Promise<DownloadResult> {
+  const { url, format, startTime, endTime, cutMode = "fast", audio = null, embedMetadata = false, subtitles = [] } = request;
+  const video = request.video ?? defaultVideoOptions;
+
+  // Clip jobs only download the requested section
+  let range: { start: number | null; end: number | null } | null = null;
+  if (clip) {
+    const startSeconds = parseTimeToSeconds(startTime || "");
+    const endSeconds = parseTimeToSeconds(endTime || "");
+    if (startSeconds !== null && endSeconds !== null && endSeconds <= startSeconds) {
+      throw new Error("End time must be after start time");
+    }
+    range = { start: startSeconds, end: endSeconds };
+  }
+
+  const basename = clip ? "clip" : audio ? "audio" : "download";
+  const infoFile = join(workDir, "info.json");
+
+  const options = {
+    format: format || (audio ? "bestaudio/best" : "best"),
+    output: join(workDir, `${basename}.%(ext)s`),
+    args: [
+      // Separate video and audio streams (e.g. "137+140") are merged into the chosen container
+      ...(audio ? audioExtractArgs(audio) : videoFormatArgs(video)),
+      ...(embedMetadata ? embedMetadataArgs(audio ? audio.codec : video.container) : []),
+      ...(subtitles.length > 0 ? embedSubtitleArgs(subtitles) : []),
+      ...downloadInfoArgs(infoFile),
+    ],
+    signal,
+    onProgress,
+  };
+
+  if (range) {
+    await downloadSections(url, range, cutMode, {
+      ...options,
+      // Section downloads are yt-dlp cutting the clip, report them as such
+      onProgress: (progress) =>
+        onProgress(progress.phase === "downloading" ? { ...progress, phase: "clipping" } : progress),
+    });
+  } else {
+    await download(url, options);
+  }
+
+  // Extracted audio always ends up with the codec as extension
+  const downloaded = (await readdir(workDir)).find((name) =>
+    audio ? name === `${basename}.${audio.codec}` : name.startsWith(`${basename}.`) && !name.endsWith(".part")
+  );
+  if (!downloaded) {
+    throw new Error("Downloaded file not found");
+  }
+
+  let path = join(workDir, downloaded);
+
+  if (!audio && video.reencode) {
+    const encoded = join(workDir, `encoded.${video.container}`);
+    await reencodeVideo(path, encoded, video, { signal, onProgress });
+    await rm(path, { force: true });
+    path = encoded;
+  }
+
+  // Name and label the file after what it really is, not what was asked for
+  const { ext, contentType } = await sniffFile(path);
+  const info = parseDownloadInfo(await readFile(infoFile, "utf8").catch(() => ""));
+  const template = request.filenameTemplate || DEFAULT_FILENAME_TEMPLATE;
+  return {
+    path,
+    filename: renderFilename(template, info ?? { title: basename }, ext, range),
+    contentType,
+    clippingStatus: clip ? CLIPPING_STATUS[cutMode] : null,
+    resolution: info?.resolution ?? null,
+  };
+}
+
+// Download the items one at a time; a failed item is reported and skipped
+async function runBatchJob(job: Job, request: BatchJobRequest) {
+  const { items, name, ...options } = request;
+  const statuses = job.items ?? [];
+
+  for (let i = 0; i < items.length; i++) {
+    const itemDir = join(job.workDir, String(i + 1));
+    await mkdir(itemDir, { recursive: true });
+    statuses[i].status = "running";
+    update(job, {}, { phase: "downloading", percent: (i / items.length) * 100, speed: null, eta: null });
+
+    try {
+      const result = await downloadVideo(
+        { ...options, type: "download", url: items[i].url },
+        itemDir,
+        false,
+        job.abort.signal,
+        // Overall progress across the batch; per-item ETAs would be misleading
+        (progress) =>
+          update(job, {}, {
+            ...progress,
+            percent: ((i + (progress.percent ?? 0) / 100) / items.length) * 100,
+            eta: null,
+          })
+      );
+      job.files.push({ path: result.path, name: result.filename, url: items[i].url });
+      Object.assign(statuses[i], { status: "completed", filename: result.filename });
+    } catch (error: any) {
+      if (job.abort.signal.aborted) throw error;
+      console.error(`Job ${job.id} item ${i + 1} failed:`, error);
+      Object.assign(statuses[i], { status: "failed", error: error.message || "Download failed" });
+    }
+    update(job, {});
+  }
+
+  if (job.files.length === 0) {
+    throw new Error("None of the items could be downloaded");
+  }
+
+  job.contentType = "application/zip";
+  update(job, { filename: renderFilename("{title}.{ext}", { title: name || "playlist" }, "zip") });
+}
+
+async function runShortJob(job: Job, request: ShortJobRequest) {
+  const result = await exportShortVideo(request, job.workDir, job.abort.signal, (progress) => update(job, {}, progress));
+  job.filePath = result.path;
+  job.contentType = result.contentType;
+  update(job, { filename: result.filename });
+}
+
+// Cut, crop and caption one short into workDir
+export async function exportShortVideo(
+  request: ShortJobRequest,
+  workDir: string,
+  signal: AbortSignal,
+  onProgress: (progress: Partial<JobProgress>) => void
+): Promise<DownloadResult> {
+  const { url, start, end, quality = "best", segments = [], captionStyle = null } = request;
+
+  const { path, info } = await exportShort({ url, start, end, quality, segments, captionStyle }, workDir, onProgress, signal);
+  const template = request.filenameTemplate || DEFAULT_FILENAME_TEMPLATE;
+  return {
+    path,
+    filename: renderFilename(template, info ?? { title: "short" }, "mp4", { start, end }),
+    contentType: "video/mp4",
+    clippingStatus: null,
+    resolution: null,
+  };
+}
@@ -0,0 +1,116 @@
+import { open } from "fs/promises";
+import { extname } from "path";
+import { runWithProgress, createFfmpegProgressParser, FFMPEG_PROGRESS_ARGS, type JobProgress } from "./progress";
+import { reencodeArgs, type VideoOptions } from "./container";
+
+export interface MediaType {
+  ext: string;
+  contentType: string;
+}
+
+export const CONTENT_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  mkv: "video/x-matroska",
+  flv: "video/x-flv",
+  ts: "video/mp2t",
+  m4a: "audio/mp4",
+  mp3: "audio/mpeg",
+  opus: "audio/ogg",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  wav: "audio/wav",
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+};
+
+// Thumbnails are often WebP or PNG, so the extension follows the real type
+export function imageExtension(contentType: string | null): string {
+  return IMAGE_EXTENSIONS[(contentType || "").split(";")[0].trim()] || "jpg";
+}
+
+// Enough bytes to see the ftyp brand or the Matroska DocType
+const SNIFF_BYTES = 64;
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return Buffer.from(bytes.subarray(start, end)).toString("latin1");
+}
+
+function media(ext: string): MediaType {
+  return { ext, contentType: CONTENT_TYPES[ext] };
+}
+
+// Identify a media file from its first bytes, regardless of the name it was saved under
+export function sniffMediaType(bytes: Uint8Array): MediaType | null {
+  if (bytes.length < 12) return null;
+
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "M4A " || brand === "M4B ") return media("m4a");
+    if (brand === "qt  ") return media("mov");
+    return media("mp4");
+  }
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    // EBML header; the DocType says whether it is WebM or general Matroska
+    return media(ascii(bytes, 0, bytes.length).includes("webm") ? "webm" : "mkv");
+  }
+  if (ascii(bytes, 0, 4) === "OggS") return media(ascii(bytes, 0, bytes.length).includes("OpusHead") ? "opus" : "ogg");
+  if (ascii(bytes, 0, 4) === "fLaC") return media("flac");
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WAVE") return media("wav");
+  if (ascii(bytes, 0, 3) === "FLV") return media("flv");
+  if (ascii(bytes, 0, 3) === "ID3" || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return media("mp3");
+  if (bytes[0] === 0x47 && bytes.length > 188 && bytes[188] === 0x47) return media("ts");
+
+  return null;
+}
+
+// Sniff a file on disk, falling back to its extension
+export async function sniffFile(path: string): Promise<MediaType> {
+  const handle = await open(path, "r");
+  try {
+    const buffer = new Uint8Array(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    const sniffed = sniffMediaType(buffer.subarray(0, bytesRead));
+    if (sniffed) return sniffed;
+  } finally {
+    await handle.close();
+  }
+
+  const ext = extname(path).slice(1);
+  return { ext, contentType: CONTENT_TYPES[ext] || "application/octet-stream" };
+}
+
+interface ReencodeOptions {
+  onProgress?: (progress: Partial<JobProgress>) => void;
+  signal?: AbortSignal;
+}
+
+// Re-encode a downloaded video into the chosen container and codec with ffmpeg
+export async function reencodeVideo(
+  input: string,
+  output: string,
+  video: VideoOptions,
+  options: ReencodeOptions = {}
+): Promise<void> {
+  // The input duration is picked up from ffmpeg's own banner
+  const parseProgress = createFfmpegProgressParser(null);
+
+  await runWithProgress(
+    "ffmpeg",
+    ["-y", "-i", input, ...reencodeArgs(video), ...FFMPEG_PROGRESS_ARGS, output],
+    {
+      signal: options.signal,
+      onLine: (line) => {
+        const progress = parseProgress(line);
+        if (progress) options.onProgress?.({ phase: "encoding", ...progress });
+      },
+    }
+  );
+}
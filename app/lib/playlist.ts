@@ -0,0 +1,79 @@
+// Playlists and channels as listed by `yt-dlp --flat-playlist`, shared by the API and the playlist page
+
+export interface PlaylistEntry {
+  id: string;
+  url: string;
+  title: string;
+  // Seconds, null when the site doesn't list it
+  duration: number | null;
+  thumbnail: string | null;
+  uploader: string | null;
+}
+
+export interface PlaylistInfo {
+  id: string | null;
+  title: string;
+  uploader: string | null;
+  entries: PlaylistEntry[];
+  // True when the listing was cut off at MAX_PLAYLIST_ENTRIES
+  truncated: boolean;
+}
+
+// Large channels list thousands of videos; the UI only needs a page's worth
+export const MAX_PLAYLIST_ENTRIES = 500;
+
+export function isPlaylistInfo(info: any): boolean {
+  return info?._type === "playlist";
+}
+
+function entryUrl(entry: any): string | null {
+  const url = entry.url || entry.webpage_url || entry.original_url;
+  if (typeof url === "string" && /^https?:\/\//.test(url)) return url;
+  // Some extractors only give the id of YouTube entries
+  if (entry.ie_key === "Youtube" && entry.id) return `https://www.youtube.com/watch?v=${entry.id}`;
+  return null;
+}
+
+function isNestedPlaylist(entry: any): boolean {
+  return entry._type === "playlist" || /Tab$/.test(entry.ie_key || "");
+}
+
+// Channel pages list their tabs ("Videos", "Shorts", "Live") as nested
+// playlists. Returns the tab to list instead, preferring the videos tab.
+export function nestedPlaylistUrl(info: any): string | null {
+  const nested = (Array.isArray(info?.entries) ? info.entries : []).filter(
+    (entry: any) => entry && isNestedPlaylist(entry) && typeof entry.url === "string"
+  );
+  const videos = nested.find((entry: any) => /\/videos\/?$/.test(entry.url));
+  return (videos ?? nested[0])?.url ?? null;
+}
+
+// Flat entries of a playlist; nested playlists are left out rather than expanded
+export function normalizePlaylist(info: any): PlaylistInfo {
+  const raw: any[] = Array.isArray(info?.entries) ? info.entries : [];
+  const entries: PlaylistEntry[] = [];
+
+  for (const entry of raw) {
+    if (!entry || isNestedPlaylist(entry)) continue;
+    const url = entryUrl(entry);
+    if (!url) continue;
+
+    const thumbnails: any[] = Array.isArray(entry.thumbnails) ? entry.thumbnails : [];
+    entries.push({
+      id: String(entry.id ?? url),
+      url,
+      title: entry.title || "Untitled",
+      duration: typeof entry.duration === "number" ? entry.duration : null,
+      thumbnail: entry.thumbnail || thumbnails[thumbnails.length - 1]?.url || null,
+      uploader: entry.uploader || entry.channel || info.uploader || info.channel || null,
+    });
+  }
+
+  return {
+    id: info?.id ?? null,
+    title: info?.title || "Untitled playlist",
+    uploader: info?.uploader || info?.channel || null,
+    entries,
+    truncated: raw.length >= MAX_PLAYLIST_ENTRIES,
+  };
+}
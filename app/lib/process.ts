@@ -0,0 +1,175 @@
+import { spawn, type ChildProcessByStdio } from "child_process";
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+
+// The one place child processes are started. Commands always get an argument
+// array and never go through a shell, so nothing in a URL or filename can be
+// interpreted as shell syntax.
+
+export interface ProcessOptions {
+  // Called with every stdout/stderr line as it arrives
+  onLine?: (line: string) => void;
+  // Kills the process when aborted
+  signal?: AbortSignal;
+  // Kills the process after this many milliseconds
+  timeout?: number;
+  // Most stdout bytes to keep before the process is killed; null keeps none,
+  // for long runs that are only followed through onLine
+  maxOutput?: number | null;
+  cwd?: string;
+}
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+}
+
+// Error thrown when a run is stopped through its abort signal
+export class CancelledError extends Error {
+  constructor(message = "Cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+// A process that could not start, failed, timed out or printed too much.
+// The message includes stderr so callers can match yt-dlp's error texts.
+export class ProcessError extends Error {
+  // "ENOENT" when the command is not installed
+  code: string | null;
+  exitCode: number | null;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+
+  constructor(
+    message: string,
+    details: { code?: string | null; exitCode?: number | null; timedOut?: boolean; stdout?: string; stderr?: string } = {}
+  ) {
+    super(message);
+    this.name = "ProcessError";
+    this.code = details.code ?? null;
+    this.exitCode = details.exitCode ?? null;
+    this.timedOut = details.timedOut ?? false;
+    this.stdout = details.stdout ?? "";
+    this.stderr = details.stderr ?? "";
+  }
+}
+
+const DEFAULT_MAX_OUTPUT = 10 * 1024 * 1024;
+
+// Only the end of stderr is kept, which is where the error is
+export const MAX_STDERR = 64 * 1024;
+
+// Run a command to completion and collect its output. Rejects with a
+// ProcessError when it exits non-zero, can't be started, runs past `timeout`
+// or prints more than `maxOutput`, and with a CancelledError when `signal`
+// aborts it.
+export function runProcess(command: string, args: string[], options: ProcessOptions = {}): Promise<ProcessResult> {
+  const { signal, timeout, onLine, cwd } = options;
+  const maxOutput = options.maxOutput === undefined ? DEFAULT_MAX_OUTPUT : options.maxOutput;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const child = spawn(command, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+
+    let stdout = "";
+    let stdoutBytes = 0;
+    let stderr = "";
+    // Multi-byte characters can be split across chunks
+    const stdoutDecoder = new StringDecoder("utf8");
+    const stderrDecoder = new StringDecoder("utf8");
+    // Set when we kill the process, to report why
+    let failure: ProcessError | null = null;
+    let settled = false;
+
+    const kill = (reason: ProcessError | null) => {
+      failure = reason;
+      child.kill(reason ? "SIGKILL" : "SIGTERM");
+    };
+
+    const onAbort = () => kill(null);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const timer = timeout
+      ? setTimeout(
+          () => kill(new ProcessError(`${command} timed out after ${timeout / 1000}s`, { timedOut: true, stdout, stderr })),
+          timeout
+        )
+      : null;
+
+    const finish = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve({ stdout, stderr });
+    };
+
+    const lineReader = () => {
+      let buffered = "";
+      return (data: Buffer) => {
+        if (!onLine) return;
+        buffered += data.toString();
+        const lines = buffered.split(/\r?\n|\r/);
+        buffered = lines.pop() ?? "";
+        for (const line of lines) {
+          if (line) onLine(line);
+        }
+      };
+    };
+
+    const onStdout = lineReader();
+    child.stdout.on("data", (data: Buffer) => {
+      onStdout(data);
+      if (maxOutput === null || failure) return;
+      stdoutBytes += data.length;
+      if (stdoutBytes > maxOutput) {
+        kill(new ProcessError(`${command} printed more than ${maxOutput} bytes`, { stderr }));
+        return;
+      }
+      stdout += stdoutDecoder.write(data);
+    });
+
+    const onStderr = lineReader();
+    child.stderr.on("data", (data: Buffer) => {
+      onStderr(data);
+      stderr = (stderr + stderrDecoder.write(data)).slice(-MAX_STDERR);
+    });
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      const message = err.code === "ENOENT" ? `${command} is not installed or not in PATH` : err.message;
+      finish(new ProcessError(message, { code: err.code ?? null }));
+    });
+
+    child.on("close", (code) => {
+      if (signal?.aborted) finish(new CancelledError());
+      else if (failure) finish(failure);
+      else if (code === 0) finish(null);
+      else {
+        finish(
+          new ProcessError(`${command} failed: ${stderr.trim() || `exit code ${code}`}`, {
+            exitCode: code,
+            stdout,
+            stderr,
+          })
+        );
+      }
+    });
+  });
+}
+
+// Start a command whose stdout is consumed as a stream (e.g. piped to the
+// client). The process is killed when `signal` aborts.
+export function spawnProcess(
+  command: string,
+  args: string[],
+  signal?: AbortSignal
+): ChildProcessByStdio<null, Readable, Readable> {
+  return spawn(command, args, { stdio: ["ignore", "pipe", "pipe"], signal });
+}
@@ -0,0 +1,119 @@
+import { runProcess, type ProcessOptions } from "./process";
+
+export type JobPhase =
+  | "queued"
+  | "downloading"
+  | "merging"
+  | "clipping"
+  | "encoding"
+  | "tagging"
+  | "finished";
+
+export interface JobProgress {
+  phase: JobPhase;
+  // 0-100, null while the total size/duration is unknown
+  percent: number | null;
+  // Bytes per second for downloads and clipping (yt-dlp fetching a section),
+  // encode speed multiplier (e.g. 1.5) for ffmpeg
+  speed: number | null;
+  // Seconds remaining, if the tool reported it
+  eta: number | null;
+}
+
+// Makes yt-dlp print one machine-readable line per progress tick:
+// [progress]downloaded,total,estimate,speed,eta (missing fields are "NA")
+export const YTDLP_PROGRESS_ARGS = [
+  "--newline",
+  "--progress-template",
+  "download:[progress]%(progress.downloaded_bytes)s,%(progress.total_bytes)s,%(progress.total_bytes_estimate)s,%(progress.speed)s,%(progress.eta)s",
+];
+
+// Makes ffmpeg write key=value progress blocks to stdout
+export const FFMPEG_PROGRESS_ARGS = ["-progress", "pipe:1", "-nostats"];
+
+function toNumber(value: string | undefined): number | null {
+  if (!value || value === "NA" || value === "None") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Parse a single yt-dlp output line. Returns the progress it describes, a
+// phase change for post-processing steps, or null for unrelated output.
+export function parseYtDlpLine(line: string): Partial<JobProgress> | null {
+  const trimmed = line.trim();
+
+  if (trimmed.startsWith("[progress]")) {
+    const [downloaded, total, estimate, speed, eta] = trimmed
+      .slice("[progress]".length)
+      .split(",")
+      .map(toNumber);
+    const size = total ?? estimate;
+    return {
+      phase: "downloading",
+      percent: downloaded !== null && size ? Math.min(100, (downloaded / size) * 100) : null,
+      speed,
+      eta,
+    };
+  }
+
+  if (trimmed.startsWith("[Merger]") || trimmed.startsWith("[VideoRemuxer]")) {
+    return { phase: "merging", percent: null, speed: null, eta: null };
+  }
+
+  if (trimmed.startsWith("[ExtractAudio]") || trimmed.startsWith("[VideoConvertor]")) {
+    return { phase: "encoding", percent: null, speed: null, eta: null };
+  }
+
+  if (trimmed.startsWith("[Metadata]") || trimmed.startsWith("[EmbedThumbnail]") || trimmed.startsWith("[EmbedSubtitle]")) {
+    return { phase: "tagging", percent: null, speed: null, eta: null };
+  }
+
+  return null;
+}
+
+// Incrementally parses ffmpeg `-progress` output. ffmpeg reports in blocks of
+// key=value lines terminated by `progress=continue` or `progress=end`.
+// Without a known total, the input duration is read from ffmpeg's stderr banner.
+export function createFfmpegProgressParser(totalSeconds: number | null) {
+  let outTime: number | null = null;
+  let speed: number | null = null;
+
+  return (line: string): Partial<JobProgress> | null => {
+    if (totalSeconds === null) {
+      const duration = line.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+      if (duration) {
+        totalSeconds = Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]);
+        return null;
+      }
+    }
+
+    const [key, value] = line.trim().split("=", 2);
+    if (!key || value === undefined) return null;
+
+    if (key === "out_time_us" || key === "out_time_ms") {
+      // Both keys are reported in microseconds by current ffmpeg builds
+      const us = toNumber(value);
+      if (us !== null) outTime = us / 1_000_000;
+    } else if (key === "speed") {
+      speed = toNumber(value.replace("x", "").trim());
+    } else if (key === "progress") {
+      const percent =
+        value === "end" ? 100 : outTime !== null && totalSeconds ? Math.min(100, (outTime / totalSeconds) * 100) : null;
+      const eta =
+        outTime !== null && totalSeconds && speed ? Math.max(0, (totalSeconds - outTime) / speed) : null;
+      return { percent, speed, eta };
+    }
+
+    return null;
+  };
+}
+
+// Run a long yt-dlp or ffmpeg command, feeding every stdout/stderr line to
+// onLine. Output isn't collected; see runProcess for how failures are reported.
+export async function runWithProgress(
+  command: string,
+  args: string[],
+  options: Pick<ProcessOptions, "onLine" | "signal" | "timeout"> = {}
+): Promise<void> {
+  await runProcess(command, args, { ...options, maxOutput: null });
+}
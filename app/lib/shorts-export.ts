@@ -0,0 +1,232 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  runWithProgress,
+  createFfmpegProgressParser,
+  FFMPEG_PROGRESS_ARGS,
+  type JobProgress,
+} from "./progress";
+import { downloadSections } from "./ytdlp";
+import { downloadInfoArgs, parseDownloadInfo, type DownloadInfo } from "./formats";
+import { toSrtTime } from "./subtitles";
+import { captionChunks } from "./captions";
+
+// One spoken word, from transcripts that time each word (YouTube automatic
+// captions, speech-to-text)
+export interface TranscriptWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[];
+}
+
+export interface CaptionStyleConfig {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: string;
+  color: string;
+  backgroundColor: string;
+  position: "top" | "middle" | "bottom";
+  maxWords?: number;
+}
+
+export type ExportQuality = "720" | "1080" | "best";
+
+export interface ShortExportOptions {
+  url: string;
+  start: number;
+  end: number;
+  quality: ExportQuality | string;
+  segments: TranscriptSegment[];
+  captionStyle: CaptionStyleConfig | null;
+}
+
+// Decode HTML entities
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&gt;/g, ">")
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/&#x27;/g, "'")
+    .replace(/&#x2F;/g, "/")
+    .replace(/&nbsp;/g, " ");
+}
+
+// Chunk segments by word count
+function chunkSegments(
+  segments: TranscriptSegment[],
+  maxWords: number,
+  clipStart: number
+): TranscriptSegment[] {
+  const chunked: TranscriptSegment[] = [];
+
+  for (const seg of segments) {
+    // Decode HTML entities and clean text
+    const cleanText = decodeHtmlEntities(seg.text).trim();
+
+    // Skip empty or whitespace-only segments
+    if (!cleanText || cleanText.length === 0) continue;
+
+    // Word timestamps place each chunk when its words are spoken
+    for (const chunk of captionChunks({ ...seg, text: cleanText }, maxWords)) {
+      chunked.push({ start: chunk.start, end: chunk.end, text: decodeHtmlEntities(chunk.text) });
+    }
+  }
+
+  return chunked;
+}
+
+// Generate SRT content from segments
+function generateSrt(
+  segments: TranscriptSegment[],
+  clipStart: number,
+  maxWords: number = 5
+): string {
+  // Chunk and filter segments
+  const chunked = chunkSegments(segments, maxWords, clipStart);
+
+  return chunked
+    .map((seg, i) => {
+      // Adjust times relative to clip start
+      const start = Math.max(0, seg.start - clipStart);
+      const end = Math.max(0, seg.end - clipStart);
+      // Skip if duration is too short or text is empty
+      if (end - start < 0.1 || !seg.text.trim()) return null;
+      return `${i + 1}\n${toSrtTime(start)} --> ${toSrtTime(end)}\n${seg.text}\n`;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Convert hex color to ASS format (BGR)
+function hexToAssBgr(hex: string): string {
+  const r = hex.slice(1, 3);
+  const g = hex.slice(3, 5);
+  const b = hex.slice(5, 7);
+  return `&H00${b}${g}${r}&`;
+}
+
+function selectFormat(quality: string): string {
+  if (quality === "720") {
+    return "bestvideo[height<=720][ext=mp4]+bestaudio[ext=m4a]/best[height<=720]";
+  } else if (quality === "1080") {
+    return "bestvideo[height<=1080][ext=mp4]+bestaudio[ext=m4a]/best[height<=1080]";
+  }
+  return "bestvideo[ext=mp4]+bestaudio[ext=m4a]/best";
+}
+
+// Download a clip section, crop it to 9:16 and burn in the captions.
+export interface ShortExportResult {
+  path: string;
+  // Source video metadata, for naming the file
+  info: DownloadInfo | null;
+}
+
+// Works inside `workDir` and returns the path of the finished MP4.
+// Aborting `signal` stops whichever tool is running; the caller owns `workDir` cleanup.
+export async function exportShort(
+  options: ShortExportOptions,
+  workDir: string,
+  onProgress?: (progress: Partial<JobProgress>) => void,
+  signal?: AbortSignal
+): Promise<ShortExportResult> {
+  const { url, start, end, quality, segments, captionStyle } = options;
+
+  const downloadPath = join(workDir, "source.mp4");
+  const srtPath = join(workDir, "subtitles.srt");
+  const outputPath = join(workDir, "output.mp4");
+  const infoPath = join(workDir, "info.json");
+
+  await mkdir(workDir, { recursive: true });
+
+  const duration = end - start;
+  console.log(`Downloading: ${start}s to ${end}s (${duration}s) at ${quality}`);
+  console.log(`Segments: ${segments.length}, Style: ${captionStyle ? "yes" : "no"}`);
+
+  // Step 1: Download the segment using yt-dlp
+  console.log("Step 1: Downloading segment with yt-dlp...");
+  onProgress?.({ phase: "downloading", percent: 0, speed: null, eta: null });
+  await downloadSections(url, { start, end }, "accurate", {
+    format: selectFormat(quality),
+    output: downloadPath,
+    args: ["--merge-output-format", "mp4", ...downloadInfoArgs(infoPath)],
+    signal,
+    onProgress,
+  });
+
+  if (!existsSync(downloadPath)) {
+    throw new Error("Download failed - source file not created");
+  }
+
+  // Step 2: Generate SRT file if segments provided
+  let subtitleFilter = "";
+  if (segments.length > 0) {
+    const maxWords = captionStyle?.maxWords || 5;
+    const srtContent = generateSrt(segments, start, maxWords);
+    await writeFile(srtPath, srtContent, "utf-8");
+    console.log("Generated SRT file with", segments.length, "segments, maxWords:", maxWords);
+
+    // Build subtitle filter with styling
+    const fontSize = captionStyle?.fontSize || 24;
+    const fontColor = captionStyle?.color || "#FFFFFF";
+    const bgColor = captionStyle?.backgroundColor || "#000000";
+    const position = captionStyle?.position || "bottom";
+
+    // Calculate vertical position (MarginV)
+    let marginV = 50; // bottom
+    if (position === "top") marginV = 400;
+    else if (position === "middle") marginV = 200;
+
+    // Escape the path for FFmpeg filter
+    const escapedSrtPath = srtPath.replace(/'/g, "'\\''").replace(/:/g, "\\:");
+
+    // Use subtitles filter with force_style
+    const fontWeight = captionStyle?.fontWeight === "bold" ? "1" : "0";
+    subtitleFilter = `,subtitles='${escapedSrtPath}':force_style='FontSize=${fontSize},PrimaryColour=${hexToAssBgr(fontColor)},BackColour=${hexToAssBgr(bgColor)},BorderStyle=4,Outline=0,Shadow=0,MarginV=${marginV},Bold=${fontWeight},Alignment=2'`;
+  }
+
+  // Step 3: Use FFmpeg to crop to 9:16 and burn subtitles
+  console.log("Step 2: Cropping to 9:16 with FFmpeg...");
+  onProgress?.({ phase: "encoding", percent: 0, speed: null, eta: null });
+  const parseFfmpeg = createFfmpegProgressParser(duration);
+  await runWithProgress(
+    "ffmpeg",
+    [
+      "-y",
+      "-i", downloadPath,
+      "-vf", `crop=ih*9/16:ih${subtitleFilter}`,
+      "-c:v", "libx264",
+      "-crf", "18",
+      "-preset", "medium",
+      "-c:a", "aac",
+      "-b:a", "192k",
+      "-movflags", "+faststart",
+      ...FFMPEG_PROGRESS_ARGS,
+      outputPath,
+    ],
+    {
+      signal,
+      onLine: (line) => {
+        const update = parseFfmpeg(line);
+        if (update) onProgress?.({ phase: "encoding", ...update });
+      },
+    }
+  );
+
+  if (!existsSync(outputPath)) {
+    throw new Error("FFmpeg crop failed - output file not created");
+  }
+
+  const info = parseDownloadInfo(await readFile(infoPath, "utf-8").catch(() => ""));
+  return { path: outputPath, info };
+}
@@ -0,0 +1,155 @@
+// Shorts generation settings, shared by /api/shorts/generate and GenerateForm
+
+export type ShortsPlatform = "youtube-shorts" | "tiktok" | "reels" | "custom";
+
+export interface ShortsKeyword {
+  // Lowercase word or phrase, matched as a whole word in the transcript
+  word: string;
+  // Added to a clip's score for containing it; negative to avoid it
+  weight: number;
+}
+
+// Seconds into the video; negative values count back from the end, and a
+// missing end means "to the end", so { start: -30 } skips a 30 second outro
+export interface ExcludedRange {
+  start: number;
+  end: number | null;
+}
+
+export interface ShortsOptions {
+  platform: ShortsPlatform;
+  // Clip length in seconds
+  minDuration: number;
+  maxDuration: number;
+  // Clips closest to this length score highest
+  idealDuration: number;
+  // Most clips to return
+  count: number;
+  // Seconds two clips may share
+  overlap: number;
+  // Scored on top of the transcript language's vocabulary
+  keywords: ShortsKeyword[];
+  exclude: ExcludedRange[];
+  // Seconds a cut may move to land in a pause; 0 keeps the transcript's cuts
+  boundaryTolerance: number;
+}
+
+// Clip lengths each platform favours; "custom" keeps whatever was set
+export const SHORTS_PLATFORMS: Record<
+  ShortsPlatform,
+  { label: string; minDuration: number; maxDuration: number; idealDuration: number }
+> = {
+  "youtube-shorts": { label: "YouTube Shorts", minDuration: 30, maxDuration: 60, idealDuration: 45 },
+  tiktok: { label: "TikTok", minDuration: 15, maxDuration: 60, idealDuration: 30 },
+  reels: { label: "Instagram Reels", minDuration: 15, maxDuration: 90, idealDuration: 30 },
+  custom: { label: "Custom", minDuration: 30, maxDuration: 60, idealDuration: 45 },
+};
+
+export const defaultShortsOptions: ShortsOptions = {
+  platform: "youtube-shorts",
+  minDuration: 30,
+  maxDuration: 60,
+  idealDuration: 45,
+  count: 5,
+  overlap: 0,
+  keywords: [],
+  exclude: [],
+  boundaryTolerance: 1.5,
+};
+
+export const SHORTS_LIMITS = {
+  minDuration: 5,
+  maxDuration: 180,
+  count: 20,
+  keywords: 50,
+  exclude: 20,
+  boundaryTolerance: 5,
+};
+
+// Weight of a keyword given without one, the same as the built-in vocabulary
+export const DEFAULT_KEYWORD_WEIGHT = 10;
+
+function number(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === "") return fallback;
+  return Number(value);
+}
+
+// Check generation options from a request body, filling in defaults and the
+// platform preset's durations for any left out
+export function parseShortsOptions(value: any): ShortsOptions | { error: string } {
+  if (value === undefined || value === null) return defaultShortsOptions;
+  if (typeof value !== "object") return { error: "Options must be an object" };
+
+  const platform: ShortsPlatform = value.platform ?? defaultShortsOptions.platform;
+  if (!Object.hasOwn(SHORTS_PLATFORMS, platform)) {
+    return { error: `Unknown platform: ${value.platform}` };
+  }
+  const preset = SHORTS_PLATFORMS[platform];
+
+  const minDuration = number(value.minDuration, preset.minDuration);
+  const maxDuration = number(value.maxDuration, preset.maxDuration);
+  const idealDuration = number(value.idealDuration, Math.min(Math.max(preset.idealDuration, minDuration), maxDuration));
+  if (![minDuration, maxDuration, idealDuration].every(Number.isFinite)) {
+    return { error: "Durations must be numbers" };
+  }
+  if (minDuration < SHORTS_LIMITS.minDuration || maxDuration > SHORTS_LIMITS.maxDuration) {
+    return { error: `Clips must be ${SHORTS_LIMITS.minDuration}-${SHORTS_LIMITS.maxDuration} seconds long` };
+  }
+  if (minDuration > maxDuration) {
+    return { error: "The minimum duration can't be longer than the maximum" };
+  }
+  if (idealDuration < minDuration || idealDuration > maxDuration) {
+    return { error: "The ideal duration must be between the minimum and maximum" };
+  }
+
+  const count = number(value.count, defaultShortsOptions.count);
+  if (!Number.isInteger(count) || count < 1 || count > SHORTS_LIMITS.count) {
+    return { error: `Between 1 and ${SHORTS_LIMITS.count} clips can be generated` };
+  }
+
+  const overlap = number(value.overlap, defaultShortsOptions.overlap);
+  if (!Number.isFinite(overlap) || overlap < 0 || overlap >= minDuration) {
+    return { error: "Overlap must be at least 0 and shorter than the minimum duration" };
+  }
+
+  const rawKeywords: any[] = Array.isArray(value.keywords) ? value.keywords : [];
+  if (rawKeywords.length > SHORTS_LIMITS.keywords) {
+    return { error: `At most ${SHORTS_LIMITS.keywords} keywords are allowed` };
+  }
+  const keywords: ShortsKeyword[] = [];
+  for (const raw of rawKeywords) {
+    const word = typeof raw === "string" ? raw : raw?.word;
+    const weight = typeof raw === "string" ? DEFAULT_KEYWORD_WEIGHT : number(raw?.weight, DEFAULT_KEYWORD_WEIGHT);
+    if (typeof word !== "string" || !word.trim() || word.length > 100 || !Number.isFinite(weight)) {
+      return { error: "Keywords need a word and a numeric weight" };
+    }
+    keywords.push({ word: word.trim().toLowerCase(), weight });
+  }
+
+  const rawExclude: any[] = Array.isArray(value.exclude) ? value.exclude : [];
+  if (rawExclude.length > SHORTS_LIMITS.exclude) {
+    return { error: `At most ${SHORTS_LIMITS.exclude} excluded ranges are allowed` };
+  }
+  const exclude: ExcludedRange[] = [];
+  for (const raw of rawExclude) {
+    const start = number(raw?.start, 0);
+    const end = raw?.end === undefined || raw?.end === null || raw?.end === "" ? null : Number(raw.end);
+    if (!Number.isFinite(start) || (end !== null && !Number.isFinite(end))) {
+      return { error: "Excluded ranges need numeric start and end times" };
+    }
+    exclude.push({ start, end });
+  }
+
+  const boundaryTolerance = number(value.boundaryTolerance, defaultShortsOptions.boundaryTolerance);
+  if (!Number.isFinite(boundaryTolerance) || boundaryTolerance < 0 || boundaryTolerance > SHORTS_LIMITS.boundaryTolerance) {
+    return { error: `Boundary tolerance must be 0-${SHORTS_LIMITS.boundaryTolerance} seconds` };
+  }
+
+  return { platform, minDuration, maxDuration, idealDuration, count, overlap, keywords, exclude, boundaryTolerance };
+}
+
+// An excluded range in seconds from the start of a video `duration` long
+export function resolveRange(range: ExcludedRange, duration: number): { start: number; end: number } {
+  const resolve = (seconds: number) => (seconds < 0 ? Math.max(0, duration + seconds) : seconds);
+  return { start: resolve(range.start), end: range.end === null ? duration : resolve(range.end) };
+}
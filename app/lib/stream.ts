@@ -0,0 +1,145 @@
+import type { ChildProcess } from "child_process";
+import type { Readable } from "stream";
+import { createReadStream } from "fs";
+
+// Keep roughly this many bytes queued for the client before pausing the source
+const HIGH_WATER_MARK = 1024 * 1024;
+
+interface WebStreamOptions {
+  // Called once when the consumer goes away before the source finished
+  onCancel?: () => void;
+  // Called once when the stream is done, whether it finished, failed or was cancelled
+  onFinish?: () => void;
+}
+
+// Wrap a Node readable in a web ReadableStream that pauses the source when the
+// client is not keeping up and resumes it when the client pulls again.
+export function toWebStream(source: Readable, options: WebStreamOptions = {}): ReadableStream<Uint8Array> {
+  let done = false;
+
+  const finish = () => {
+    if (done) return;
+    done = true;
+    options.onFinish?.();
+  };
+
+  return new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        source.on("data", (chunk: Buffer) => {
+          if (done) return;
+          controller.enqueue(new Uint8Array(chunk));
+          if ((controller.desiredSize ?? 0) <= 0) source.pause();
+        });
+        source.on("end", () => {
+          if (done) return;
+          controller.close();
+          finish();
+        });
+        source.on("error", (err) => {
+          if (done) return;
+          controller.error(err);
+          finish();
+        });
+      },
+      pull() {
+        source.resume();
+      },
+      cancel() {
+        if (done) return;
+        options.onCancel?.();
+        source.destroy();
+        finish();
+      },
+    },
+    { highWaterMark: HIGH_WATER_MARK, size: (chunk) => chunk.byteLength }
+  );
+}
+
+// Stream a child process' stdout. Resolves as soon as the first chunk arrives so
+// callers can still answer with a JSON error when the process fails up front;
+// resolves null if the process exits without writing anything.
+export function streamProcessOutput(
+  child: ChildProcess,
+  options: WebStreamOptions = {}
+): Promise<ReadableStream<Uint8Array> | null> {
+  return new Promise((resolve) => {
+    const stdout = child.stdout;
+    if (!stdout) {
+      resolve(null);
+      return;
+    }
+
+    let exitCode: number | null = null;
+    let settled = false;
+    let closed = false;
+
+    const finish = () => {
+      if (closed) return;
+      closed = true;
+      options.onFinish?.();
+    };
+
+    // Only report a clean end once the process itself exited successfully,
+    // otherwise a crash halfway through would look like a complete file.
+    const output = new ReadableStream<Uint8Array>(
+      {
+        start(controller) {
+          const close = (err?: Error) => {
+            if (closed) return;
+            if (err) controller.error(err);
+            else controller.close();
+            finish();
+          };
+
+          stdout.on("data", (chunk: Buffer) => {
+            if (closed) return;
+            controller.enqueue(new Uint8Array(chunk));
+            if (!settled) {
+              settled = true;
+              resolve(output);
+            }
+            if ((controller.desiredSize ?? 0) <= 0) stdout.pause();
+          });
+
+          child.on("close", (code) => {
+            exitCode = code;
+            if (!settled) {
+              settled = true;
+              finish();
+              resolve(null);
+              return;
+            }
+            close(code === 0 ? undefined : new Error(`Process exited with code ${code}`));
+          });
+
+          child.on("error", (err) => {
+            if (!settled) {
+              settled = true;
+              finish();
+              resolve(null);
+              return;
+            }
+            close(err);
+          });
+        },
+        pull() {
+          stdout.resume();
+        },
+        cancel() {
+          if (exitCode === null) {
+            options.onCancel?.();
+            child.kill("SIGTERM");
+          }
+          finish();
+        },
+      },
+      { highWaterMark: HIGH_WATER_MARK, size: (chunk) => chunk.byteLength }
+    );
+  });
+}
+
+// Stream a file from disk, e.g. a finished clip in the temp directory
+export function streamFile(path: string, options: WebStreamOptions = {}): ReadableStream<Uint8Array> {
+  return toWebStream(createReadStream(path), options);
+}
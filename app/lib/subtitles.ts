@@ -0,0 +1,193 @@
+// Subtitle tracks and output formats, shared by /api/subtitles and the video page
+import type { TranscriptSegment } from "./shorts-export";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass" | "txt" | "json";
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { label: string; contentType: string }> = {
+  srt: { label: "SRT", contentType: "application/x-subrip; charset=utf-8" },
+  vtt: { label: "WebVTT", contentType: "text/vtt; charset=utf-8" },
+  ass: { label: "ASS", contentType: "text/x-ssa; charset=utf-8" },
+  txt: { label: "Plain text", contentType: "text/plain; charset=utf-8" },
+  json: { label: "JSON", contentType: "application/json; charset=utf-8" },
+};
+
+export interface SubtitleTrack {
+  // Language code as the site reports it, e.g. "en", "pt-BR" or "en-orig"
+  lang: string;
+  name: string;
+  // Generated by the site's speech recognition instead of uploaded with the video
+  automatic: boolean;
+}
+
+// Only tracks offered in a format the parser understands are listed
+const PARSEABLE_EXTENSIONS = ["vtt", "srt"];
+
+// Language codes are passed to yt-dlp, so only plain codes are accepted
+const LANGUAGE_CODE = /^[a-zA-Z0-9][\w-]{0,31}$/;
+
+export function isLanguageCode(value: unknown): value is string {
+  return typeof value === "string" && LANGUAGE_CODE.test(value);
+}
+
+export function parseSubtitleFormat(value: unknown): SubtitleFormat | null {
+  return typeof value === "string" && Object.hasOwn(SUBTITLE_FORMATS, value) ? (value as SubtitleFormat) : null;
+}
+
+// Tracks from yt-dlp's `subtitles` and `automatic_captions`, uploaded ones first
+export function listSubtitleTracks(info: any): SubtitleTrack[] {
+  const collect = (tracks: Record<string, any[]> | undefined, automatic: boolean): SubtitleTrack[] =>
+    Object.entries(tracks ?? {})
+      .filter(([lang, entries]) =>
+        lang !== "live_chat" && Array.isArray(entries) && entries.some((entry) => PARSEABLE_EXTENSIONS.includes(entry?.ext))
+      )
+      .map(([lang, entries]) => ({ lang, name: entries.find((entry) => entry?.name)?.name || lang, automatic }));
+
+  return [...collect(info?.subtitles, false), ...collect(info?.automatic_captions, true)];
+}
+
+// "pt-BR", "pt_PT" and "pt-orig" are all Portuguese
+export function baseLanguage(code: string): string {
+  return code.split(/[-_]/)[0].toLowerCase();
+}
+
+// YouTube lists its automatic captions in every language it can translate
+// to; the one transcribed from the audio is marked "-orig"
+function isOriginal(track: SubtitleTrack): boolean {
+  return track.automatic && track.lang.endsWith("-orig");
+}
+
+// The track to build a transcript from: in `language` when given, otherwise
+// in the video's own language (yt-dlp's `language`, or the one YouTube
+// transcribed). Uploaded tracks beat automatic ones, the exact code beats a
+// regional variant (en-US for en), and automatic captions transcribed from
+// the audio beat machine translations.
+export function pickTranscriptTrack(
+  tracks: SubtitleTrack[],
+  language?: string | null,
+  videoLanguage?: string | null
+): SubtitleTrack | null {
+  const wanted = language || videoLanguage || tracks.find(isOriginal)?.lang;
+  if (!wanted) {
+    // Nothing says which language is spoken; a lone uploaded track is a safe guess
+    const uploaded = tracks.filter((track) => !track.automatic);
+    return uploaded.length === 1 ? uploaded[0] : null;
+  }
+
+  const base = baseLanguage(wanted);
+  const exact = (track: SubtitleTrack) => track.lang.toLowerCase() === wanted.toLowerCase();
+  const variant = (track: SubtitleTrack) => baseLanguage(track.lang) === base;
+  const uploaded = tracks.filter((track) => !track.automatic);
+  const automatic = tracks.filter((track) => track.automatic);
+
+  return (
+    uploaded.find(exact) ??
+    uploaded.find(variant) ??
+    automatic.find((track) => isOriginal(track) && variant(track)) ??
+    automatic.find(exact) ??
+    automatic.find(variant) ??
+    null
+  );
+}
+
+function splitTime(seconds: number) {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3_600_000),
+    minutes: Math.floor((totalMs % 3_600_000) / 60_000),
+    secs: Math.floor((totalMs % 60_000) / 1000),
+    ms: totalMs % 1000,
+  };
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// Convert seconds to SRT time format (HH:MM:SS,mmm)
+export function toSrtTime(seconds: number): string {
+  const { hours, minutes, secs, ms } = splitTime(seconds);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(ms, 3)}`;
+}
+
+// WebVTT uses a dot before the milliseconds (HH:MM:SS.mmm)
+function toVttTime(seconds: number): string {
+  return toSrtTime(seconds).replace(",", ".");
+}
+
+// ASS counts centiseconds and doesn't pad the hours (H:MM:SS.cc)
+function toAssTime(seconds: number): string {
+  const { hours, minutes, secs, ms } = splitTime(seconds);
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(Math.floor(ms / 10))}`;
+}
+
+// Minimal ASS header: one bottom-centred style at 1080p
+const ASS_HEADER = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+WrapStyle: 0
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`;
+
+// Braces start override tags in ASS, so they can't appear in dialogue text
+function escapeAssText(text: string): string {
+  return text.replace(/\{/g, "(").replace(/\}/g, ")").replace(/\r?\n/g, "\\N");
+}
+
+// Serialize segments (times in seconds) into the requested subtitle format
+export function renderSubtitles(segments: TranscriptSegment[], format: SubtitleFormat): string {
+  switch (format) {
+    case "srt":
+      return segments
+        .map((seg, i) => `${i + 1}\n${toSrtTime(seg.start)} --> ${toSrtTime(seg.end)}\n${seg.text}\n`)
+        .join("\n");
+    case "vtt":
+      return `WEBVTT\n\n${segments
+        .map((seg) => `${toVttTime(seg.start)} --> ${toVttTime(seg.end)}\n${seg.text}\n`)
+        .join("\n")}`;
+    case "ass":
+      return (
+        ASS_HEADER +
+        segments
+          .map((seg) => `Dialogue: 0,${toAssTime(seg.start)},${toAssTime(seg.end)},Default,,0,0,0,,${escapeAssText(seg.text)}\n`)
+          .join("")
+      );
+    case "txt":
+      return segments.map((seg) => seg.text).join("\n") + "\n";
+    case "json":
+      return JSON.stringify(segments, null, 2);
+  }
+}
+
+// Containers yt-dlp can mux subtitle tracks into (as mov_text for MP4)
+const SUBTITLE_CONTAINERS = ["mp4", "mkv"];
+
+export function canEmbedSubtitles(container: string): boolean {
+  return SUBTITLE_CONTAINERS.includes(container);
+}
+
+// Validate the languages to embed from a request body; [] when absent, null when invalid
+export function parseSubtitleLangs(value: unknown): string[] | null {
+  if (value == null) return [];
+  if (!Array.isArray(value) || value.length > 10 || !value.every(isLanguageCode)) return null;
+  return Array.from(new Set(value));
+}
+
+// Why subtitles can't be embedded into this download, or null if they can.
+// Tracks cover the whole video, so they would be out of sync in a clip.
+export function subtitleEmbedError(options: { audio: boolean; container: string; clipping: boolean }): string | null {
+  if (options.audio) return "Subtitles can't be embedded into audio downloads";
+  if (!canEmbedSubtitles(options.container)) return "Subtitles can only be embedded into MP4 or MKV";
+  if (options.clipping) return "Subtitles can't be embedded into clips";
+  return null;
+}
+
+// yt-dlp arguments that download the given languages, preferring uploaded
+// tracks over automatic captions, and mux them into the output file
+export function embedSubtitleArgs(langs: string[]): string[] {
+  return ["--embed-subs", "--write-subs", "--write-auto-subs", "--sub-langs", langs.join(",")];
+}
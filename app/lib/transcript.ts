@@ -0,0 +1,299 @@
+import { mkdir, readdir, readFile, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { randomUUID } from "crypto";
+import { parseSync, parseTimestamp } from "subtitle";
+import { listSubtitleTracks, pickTranscriptTrack, type SubtitleTrack } from "./subtitles";
+import { download, type VideoInfo } from "./ytdlp";
+import type { TranscriptSegment, TranscriptWord } from "./shorts-export";
+import { transcribeVideo } from "./asr";
+import { CancelledError } from "./process";
+
+// Where a transcript came from: the video's captions, speech-to-text, or
+// evenly spaced placeholder text when neither was available
+export type TranscriptSource = "subtitles" | "speech" | "placeholder";
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  source: TranscriptSource;
+  language: string | null;
+  // True when the text is made up rather than what is said in the video
+  synthetic: boolean;
+}
+
+// PLACEHOLDER_TRANSCRIPT=off makes videos without subtitles or speech-to-text
+// fail instead of getting made-up text
+const placeholderAllowed = !/^(off|false|0|no)$/i.test(process.env.PLACEHOLDER_TRANSCRIPT?.trim() || "");
+
+function cleanVTTText(text: string): string {
+  return text
+    // Remove VTT timing tags like <00:00:00.000>
+    .replace(/<\d{2}:\d{2}:\d{2}\.\d{3}>/g, "")
+    // Remove VTT style tags like <c>, </c>, <b>, etc.
+    .replace(/<\/?[^>]+>/g, "")
+    // Remove >>> and similar markers that YouTube adds
+    .replace(/>{2,}/g, "")
+    .replace(/<{2,}/g, "")
+    // Decode HTML entities
+    .replace(/&gt;/g, ">")
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/&#x27;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    // Remove [music] and similar markers
+    .replace(/\[.*?\]/g, "")
+    // Clean up whitespace and newlines
+    .replace(/\n/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const TIMING_TAG = /<(\d{2}:\d{2}:\d{2}\.\d{3})>/;
+
+// Words of a cue with <00:00:01.234> timing tags, as YouTube writes its
+// automatic captions: each tag is the time the following word is spoken. The
+// tags are on the cue's last line; earlier lines repeat the previous cue.
+// Undefined when the cue has no tags.
+function parseCueWords(raw: string, start: number, end: number): TranscriptWord[] | undefined {
+  const line = raw.split("\n").pop() || "";
+  if (!TIMING_TAG.test(line)) return undefined;
+
+  // Alternating text and timestamps: [text, time, text, time, text, ...]
+  const parts = line.split(TIMING_TAG);
+  const pieces: { start: number; words: string[] }[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const words = cleanVTTText(parts[i]).split(/\s+/).filter(Boolean);
+    const pieceStart = i === 0 ? start : parseTimestamp(parts[i - 1]) / 1000;
+    if (words.length > 0) pieces.push({ start: pieceStart, words });
+  }
+
+  // Words sharing a piece split its time evenly; each piece lasts until the next
+  const words: TranscriptWord[] = [];
+  pieces.forEach((piece, i) => {
+    const pieceEnd = Math.max(piece.start, i + 1 < pieces.length ? pieces[i + 1].start : end);
+    const perWord = (pieceEnd - piece.start) / piece.words.length;
+    piece.words.forEach((text, j) => {
+      words.push({ start: piece.start + j * perWord, end: piece.start + (j + 1) * perWord, text });
+    });
+  });
+  return words;
+}
+
+// Parse a VTT or SRT file into cues with cleaned text, as they appear in the file
+export function parseSubtitleCues(content: string): TranscriptSegment[] {
+  try {
+    const cues: TranscriptSegment[] = [];
+    for (const node of parseSync(content)) {
+      if (node.type === "cue" && node.data) {
+        const cleanText = cleanVTTText(node.data.text);
+        if (cleanText && cleanText.length > 1) {
+          const start = node.data.start / 1000;
+          const end = node.data.end / 1000;
+          const words = parseCueWords(node.data.text, start, end);
+          cues.push({ start, end, text: cleanText, ...(words && { words }) });
+        }
+      }
+    }
+    return cues;
+  } catch (error) {
+    console.error("Subtitle parsing error:", error);
+    return [];
+  }
+}
+
+// YouTube auto-generated VTT has overlapping progressive cues: each cue
+// contains the previous text plus new words. Keep only the NEW words of each
+// cue, then merge very short consecutive segments.
+export function dedupeRollingCues(rawCues: TranscriptSegment[]): TranscriptSegment[] {
+  if (rawCues.length === 0) return [];
+
+  const segments: TranscriptSegment[] = [];
+  let lastText = "";
+
+  for (let i = 0; i < rawCues.length; i++) {
+    const cue = rawCues[i];
+    let newText = cue.text;
+
+    // Check if this cue's text starts with or contains the previous text
+    if (lastText && cue.text.toLowerCase().startsWith(lastText.toLowerCase())) {
+      // Extract only the new portion
+      newText = cue.text.substring(lastText.length).trim();
+    } else if (lastText) {
+      // Check if previous text is contained within current (partial overlap)
+      const lastWords = lastText.split(/\s+/);
+      const currentWords = cue.text.split(/\s+/);
+
+      // Find overlap at the end of lastText and start of currentText
+      let overlapStart = 0;
+      for (let j = Math.min(lastWords.length, currentWords.length); j > 0; j--) {
+        const lastPart = lastWords.slice(-j).join(" ").toLowerCase();
+        const currentPart = currentWords.slice(0, j).join(" ").toLowerCase();
+        if (lastPart === currentPart) {
+          overlapStart = j;
+          break;
+        }
+      }
+
+      if (overlapStart > 0) {
+        newText = currentWords.slice(overlapStart).join(" ");
+      }
+    }
+
+    // Only add if we have new meaningful text
+    if (newText && newText.length > 1) {
+      // The new words are the last ones of the cue, which carry its word timing
+      const count = newText.split(/\s+/).length;
+      const words = cue.words && cue.words.length >= count ? cue.words.slice(-count) : undefined;
+      segments.push({
+        start: cue.start,
+        end: cue.end,
+        text: newText,
+        ...(words && { words }),
+      });
+    }
+
+    lastText = cue.text;
+  }
+
+  // Merge very short consecutive segments
+  const mergedSegments: TranscriptSegment[] = [];
+  let currentSegment: TranscriptSegment | null = null;
+
+  for (const seg of segments) {
+    if (!currentSegment) {
+      currentSegment = { ...seg };
+    } else if (seg.start - currentSegment.end < 0.5 && currentSegment.text.split(/\s+/).length < 8) {
+      // Merge if gap is small and current segment is short
+      currentSegment.end = seg.end;
+      currentSegment.text = currentSegment.text + " " + seg.text;
+      // Word timing is kept only if every merged part has it
+      currentSegment.words =
+        currentSegment.words && seg.words ? [...currentSegment.words, ...seg.words] : undefined;
+    } else {
+      mergedSegments.push(currentSegment);
+      currentSegment = { ...seg };
+    }
+  }
+
+  if (currentSegment) {
+    mergedSegments.push(currentSegment);
+  }
+
+  return mergedSegments;
+}
+
+export function parseVTT(vttContent: string): TranscriptSegment[] {
+  return dedupeRollingCues(parseSubtitleCues(vttContent));
+}
+
+// A stalled subtitle download must not hold up shorts generation
+const SUBTITLE_TIMEOUT_MS = 30000;
+
+// Download one subtitle track into workDir and parse it. Automatic captions
+// get the rolling-cue deduplication, uploaded tracks are kept cue for cue.
+// Resolves to null when the video has no such track.
+export async function downloadSubtitleTrack(
+  url: string,
+  track: Pick<SubtitleTrack, "lang" | "automatic">,
+  workDir: string,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[] | null> {
+  await download(url, {
+    output: join(workDir, "subs"),
+    args: [
+      "--skip-download",
+      track.automatic ? "--write-auto-subs" : "--write-subs",
+      "--sub-langs", track.lang,
+      "--sub-format", "vtt/srt",
+    ],
+    signal,
+    timeout: SUBTITLE_TIMEOUT_MS,
+  });
+
+  const name = (await readdir(workDir)).find(
+    (name) => name.startsWith(`subs.${track.lang}.`) && (name.endsWith(".vtt") || name.endsWith(".srt"))
+  );
+  if (!name) return null;
+
+  const content = await readFile(join(workDir, name), "utf-8");
+  return track.automatic ? parseVTT(content) : parseSubtitleCues(content);
+}
+
+// Evenly spaced segments with generic text, so shorts can still be cut from
+// a video nobody can transcribe
+function placeholderSegments(duration: number): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const segmentLength = 15; // 15 second segments
+
+  const placeholderTexts = [
+    "This is an engaging moment from the video that captures attention.",
+    "Key point being discussed here with important information.",
+    "Interesting content that viewers would want to see.",
+    "Valuable insight shared in this segment of the video.",
+    "Compelling moment that makes for great short-form content.",
+    "Highlight from the video with shareable content.",
+  ];
+
+  for (let i = 0; i < duration; i += segmentLength) {
+    segments.push({
+      start: i,
+      end: Math.min(i + segmentLength, duration),
+      text: placeholderTexts[Math.floor(i / segmentLength) % placeholderTexts.length],
+    });
+  }
+
+  return segments;
+}
+
+// The best transcript available for a video: its captions in `language`
+// (the video's own language when left out), then local speech-to-text, then
+// placeholder text unless PLACEHOLDER_TRANSCRIPT is off. Resolves to null
+// when there is none.
+export async function getTranscript(
+  url: string,
+  info: VideoInfo,
+  options: { language?: string | null; signal?: AbortSignal } = {}
+): Promise<Transcript | null> {
+  const { language, signal } = options;
+  const workDir = join(tmpdir(), `transcript-${randomUUID()}`);
+
+  try {
+    await mkdir(workDir, { recursive: true });
+
+    const track = pickTranscriptTrack(listSubtitleTracks(info), language, info.language);
+    if (track) {
+      try {
+        const segments = await downloadSubtitleTrack(url, track, workDir, signal);
+        if (segments && segments.length > 0) {
+          return { segments, source: "subtitles", language: track.lang.replace(/-orig$/, ""), synthetic: false };
+        }
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        console.log(`No ${track.lang} subtitles available:`, error);
+      }
+    }
+
+    try {
+      const transcription = await transcribeVideo(url, workDir, { language: language || info.language, signal });
+      if (transcription && transcription.segments.length > 0) {
+        return { ...transcription, source: "speech", synthetic: false };
+      }
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      console.error("Speech-to-text failed:", error);
+    }
+
+    if (!placeholderAllowed) return null;
+    return {
+      segments: placeholderSegments(info.duration || 300), // Default 5 min
+      source: "placeholder",
+      language: null,
+      synthetic: true,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,209 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import { isIP, type LookupFunction } from "net";
+import http from "http";
+import https from "https";
+import { normalizeUrl } from "./urls";
+import { USER_AGENT } from "./ytdlp";
+
+// Server-side limits on which URLs the app will touch: video URLs must belong
+// to an allowed platform, and the thumbnail proxy only fetches images yt-dlp
+// reported for a video, never private or internal addresses.
+
+// Error for a URL the server refuses to fetch
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+// ALLOWED_PLATFORMS="youtube,vimeo" limits downloads to those platforms,
+// "*" allows every site yt-dlp supports. Defaults to the platforms the app knows.
+const platformSetting = process.env.ALLOWED_PLATFORMS?.trim() || "";
+const allowAnySite = platformSetting === "*";
+const allowedPlatforms =
+  platformSetting && !allowAnySite
+    ? new Set(platformSetting.split(",").map((platform) => platform.trim().toLowerCase()))
+    : null;
+
+// Why a video URL may not be downloaded on this server, or null if it may
+export function platformError(url: string): string | null {
+  if (allowAnySite) return null;
+  const platform = normalizeUrl(url)?.platform;
+  if (!platform) return "This site is not supported";
+  if (allowedPlatforms && !allowedPlatforms.has(platform)) {
+    return `Downloads from ${platform} are disabled on this server`;
+  }
+  return null;
+}
+
+// Tokens only survive restarts when the secret is configured
+const SIGNING_SECRET = process.env.URL_SIGNING_SECRET || randomBytes(32).toString("hex");
+
+// Token proving a thumbnail URL came from yt-dlp's metadata, for the proxy
+export function signThumbnailUrl(url: string): string {
+  return createHmac("sha256", SIGNING_SECRET).update(`thumbnail:${url}`).digest("base64url");
+}
+
+export function verifyThumbnailUrl(url: string, token: unknown): boolean {
+  if (typeof token !== "string" || !token) return false;
+  const expected = Buffer.from(signThumbnailUrl(url));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    // Multicast, reserved and broadcast
+    a >= 224
+  );
+}
+
+// The eight 16-bit groups of a valid IPv6 address, with "::" expanded and a
+// dotted IPv4 tail (::ffff:10.0.0.1) converted to two groups
+function ipv6Groups(ip: string): number[] {
+  let address = ip.replace(/%.*$/, "");
+  const dotted = address.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    address = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const parse = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const [head, tail] = address.split("::");
+  if (tail === undefined) return parse(head);
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...new Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
+
+// The IPv4 address inside an IPv4-compatible (::10.0.0.1, written ::a00:1),
+// IPv4-mapped (::ffff:10.0.0.1) or NAT64 (64:ff9b::10.0.0.1) address, since
+// connecting to one reaches that IPv4 host
+function embeddedIPv4(groups: number[]): string | null {
+  const compatible = groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff);
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (!compatible && !nat64) return null;
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and unspecified addresses
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(ip) === 4) return isPrivateIPv4(ip);
+  if (isIP(ip) !== 6) return true;
+
+  const groups = ipv6Groups(ip);
+  if (groups.length !== 8 || groups.some((group) => !Number.isInteger(group))) return true;
+
+  // Also covers :: (0.0.0.0) and ::1 (0.0.0.1)
+  const ipv4 = embeddedIPv4(groups);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Resolves like dns.lookup but fails for private addresses. Checked when the
+// socket connects, so a DNS answer can't change between check and request.
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      return callback(new BlockedUrlError(`${hostname} resolves to a private address`), []);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 15000;
+
+// SVG can carry scripts, and the proxy serves images from our own origin
+const IMAGE_TYPE = /^image\/(jpeg|png|webp|gif|avif)$/i;
+
+function get(url: URL, signal?: AbortSignal): Promise<http.IncomingMessage> {
+  if (isIP(url.hostname.replace(/^\[|\]$/g, "")) && isPrivateAddress(url.hostname)) {
+    return Promise.reject(new BlockedUrlError(`${url.hostname} is a private address`));
+  }
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      {
+        headers: { "User-Agent": USER_AGENT, Accept: "image/*" },
+        lookup: guardedLookup,
+        signal,
+        timeout: FETCH_TIMEOUT_MS,
+      },
+      resolve
+    );
+    request.on("timeout", () => request.destroy(new Error("Image request timed out")));
+    request.on("error", reject);
+  });
+}
+
+// Download an image from a public address, following a few redirects
+// (each checked again), refusing anything that isn't a raster image or is
+// larger than `maxBytes`
+export async function fetchPublicImage(
+  url: string,
+  options: { maxBytes: number; signal?: AbortSignal }
+): Promise<{ data: Uint8Array<ArrayBuffer>; contentType: string }> {
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      throw new BlockedUrlError("Only http(s) images can be fetched");
+    }
+    const response = await get(current, options.signal);
+    const status = response.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+      current = new URL(response.headers.location, current);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Failed to fetch image: ${status}`);
+    }
+
+    const contentType = (response.headers["content-type"] || "").split(";")[0].trim();
+    if (!IMAGE_TYPE.test(contentType)) {
+      response.resume();
+      throw new Error(`Not an image: ${contentType || "unknown type"}`);
+    }
+    if (Number(response.headers["content-length"]) > options.maxBytes) {
+      response.destroy();
+      throw new Error("Image is too large");
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (size > options.maxBytes) {
+        response.destroy();
+        throw new Error("Image is too large");
+      }
+      chunks.push(chunk);
+    }
+    return { data: new Uint8Array(Buffer.concat(chunks)), contentType };
+  }
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { embedUrl, normalizeUrl } from "./urls";
+
+describe("YouTube playlists", () => {
+  it("uses the list id in the canonical and embed URLs", () => {
+    const normalized = normalizeUrl("https://www.youtube.com/playlist?list=PLabc_123-x&si=share");
+    expect(normalized).toMatchObject({ platform: "youtube", id: "PLabc_123-x", canonicalUrl: "https://www.youtube.com/playlist?list=PLabc_123-x" });
+    expect(embedUrl(normalized)).toBe("https://www.youtube.com/embed/videoseries?list=PLabc_123-x");
+  });
+
+  it.each(["PL1&autoplay=1", "PL1#x", "PL1/../watch", "PL1'onload"])("does not build URLs from the list %j", (list) => {
+    const normalized = normalizeUrl(`https://www.youtube.com/playlist?list=${encodeURIComponent(list)}`);
+    expect(normalized?.id).toBeNull();
+    expect(embedUrl(normalized)).toBeNull();
+  });
+});
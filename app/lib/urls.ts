@@ -0,0 +1,227 @@
+// URL checks shared by the home page, the batch page and the API routes
+
+export const SUPPORTED_PLATFORMS = [
+  "youtube.com",
+  "youtu.be",
+  "vimeo.com",
+  "tiktok.com",
+  "instagram.com",
+  "twitter.com",
+  "x.com",
+  "facebook.com",
+  "fb.watch",
+  "twitch.tv",
+  "soundcloud.com",
+];
+
+// Pasted lists are capped so one request can't queue hundreds of downloads
+export const MAX_BATCH_URLS = 100;
+
+export function isSupportedUrl(url: string): boolean {
+  return !!normalizeUrl(url)?.platform;
+}
+
+export interface ParsedUrl {
+  url: string;
+  valid: boolean;
+}
+
+// Cells that look like links: with a scheme, "www.", or a supported host
+function looksLikeUrl(cell: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(cell) || /^www\./i.test(cell) || SUPPORTED_PLATFORMS.some((p) => cell.startsWith(p));
+}
+
+// Pull the links out of pasted text or an uploaded .txt/.csv file. Other
+// cells (CSV headers, titles, notes) are ignored; duplicates are dropped.
+export function parseUrlList(text: string): ParsedUrl[] {
+  const seen = new Set<string>();
+  const parsed: ParsedUrl[] = [];
+
+  for (const raw of text.split(/[\s,;]+/)) {
+    const cell = raw.trim().replace(/^["'<(]+|["'>)]+$/g, "");
+    if (!cell || !looksLikeUrl(cell)) continue;
+
+    const link = /^[a-z][a-z0-9+.-]*:\/\//i.test(cell) ? cell : `https://${cell}`;
+    // The same video pasted as youtu.be and youtube.com links is listed once
+    const normalized = normalizeUrl(link);
+    const url = normalized?.canonicalUrl ?? link;
+    if (seen.has(url)) continue;
+    seen.add(url);
+    parsed.push({ url, valid: !!normalized?.platform });
+  }
+
+  return parsed;
+}
+
+// Longer URLs are not something a user pasted
+const MAX_URL_LENGTH = 2048;
+
+// Server-side check of a URL from a request body before it is handed to
+// yt-dlp or fetch: http(s) only, no credentials, whitespace, control
+// characters or characters a URL never holds unencoded (quotes, backticks,
+// braces). Returns the normalized URL, or null if it isn't acceptable.
+export function parseMediaUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.length > MAX_URL_LENGTH || /[\s\u0000-\u001f\u007f"`<>\\^{|}]/.test(trimmed)) return null;
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (url.username || url.password || !url.hostname) return null;
+  return url.href;
+}
+
+export type Platform = "youtube" | "vimeo" | "tiktok" | "instagram" | "twitter" | "facebook" | "twitch" | "soundcloud";
+
+export interface NormalizedUrl {
+  // null for sites yt-dlp may still support but the app doesn't know
+  platform: Platform | null;
+  // The platform's id of the video (or playlist), when the URL carries one
+  id: string | null;
+  // One URL per video: the platform's standard form, without tracking parameters
+  canonicalUrl: string;
+  // Seconds, from `t=`, `start=` or `#t=`
+  startTime: number | null;
+}
+
+// Query parameters that only track where a link was shared from
+const TRACKING_PARAMS = /^(utm_\w+|si|feature|fbclid|gclid|igshid|igsh|ref|ref_src|ref_url|share_id|is_from_webapp|sender_device|mibextid|pp)$/i;
+
+// "90", "90s", "1m30s", "1h2m3s" or "1:30"
+function parseStartTime(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+(\.\d+)?s?$/.test(value)) return Number(value.replace(/s$/, ""));
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units) {
+    return Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0);
+  }
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return null;
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^(www|m|mobile|music)\./, "");
+}
+
+// The platform, id and standard URL of a link to a known platform
+function matchPlatform(url: URL): Omit<NormalizedUrl, "startTime"> | null {
+  const host = hostOf(url);
+  const path = url.pathname;
+  const param = (name: string) => url.searchParams.get(name);
+
+  if (host === "youtu.be" || host === "youtube.com" || host === "youtube-nocookie.com") {
+    const id =
+      host === "youtu.be"
+        ? path.split("/")[1]
+        : param("v") || path.match(/^\/(?:shorts|live|embed|v)\/([\w-]+)/)?.[1];
+    if (id && /^[\w-]{6,}$/.test(id)) {
+      return { platform: "youtube", id, canonicalUrl: `https://www.youtube.com/watch?v=${id}` };
+    }
+    const list = path === "/playlist" ? param("list") : null;
+    if (list && /^[\w-]+$/.test(list)) {
+      return { platform: "youtube", id: list, canonicalUrl: `https://www.youtube.com/playlist?list=${list}` };
+    }
+    return { platform: "youtube", id: null, canonicalUrl: "" };
+  }
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = path.match(/\/(\d+)(?:\/|$)/)?.[1];
+    return { platform: "vimeo", id: id ?? null, canonicalUrl: id ? `https://vimeo.com/${id}` : "" };
+  }
+
+  if (host === "tiktok.com" || host.endsWith(".tiktok.com")) {
+    const video = path.match(/^\/(@[\w.-]+)\/video\/(\d+)/);
+    return {
+      platform: "tiktok",
+      id: video?.[2] ?? null,
+      canonicalUrl: video ? `https://www.tiktok.com/${video[1]}/video/${video[2]}` : "",
+    };
+  }
+
+  if (host === "instagram.com") {
+    const post = path.match(/^\/(?:[\w.]+\/)?(p|reels?|tv)\/([\w-]+)/);
+    const kind = post?.[1] === "reels" ? "reel" : post?.[1];
+    return {
+      platform: "instagram",
+      id: post?.[2] ?? null,
+      canonicalUrl: post ? `https://www.instagram.com/${kind}/${post[2]}/` : "",
+    };
+  }
+
+  if (host === "twitter.com" || host === "x.com") {
+    const id = path.match(/\/status(?:es)?\/(\d+)/)?.[1];
+    return { platform: "twitter", id: id ?? null, canonicalUrl: id ? `https://x.com/i/status/${id}` : "" };
+  }
+
+  if (host === "facebook.com" || host === "fb.watch") {
+    const reel = path.match(/^\/reel\/(\d+)/)?.[1];
+    const id = reel ?? (param("v") || path.match(/\/videos\/(?:[\w.-]+\/)?(\d+)/)?.[1]);
+    const canonicalUrl = reel
+      ? `https://www.facebook.com/reel/${reel}`
+      : id ? `https://www.facebook.com/watch/?v=${id}` : "";
+    return { platform: "facebook", id: id ?? null, canonicalUrl };
+  }
+
+  if (host === "twitch.tv" || host === "clips.twitch.tv") {
+    const vod = path.match(/^\/videos\/(\d+)/)?.[1];
+    if (vod) return { platform: "twitch", id: vod, canonicalUrl: `https://www.twitch.tv/videos/${vod}` };
+    const clip = host === "clips.twitch.tv" ? path.split("/")[1] : path.match(/^\/[\w-]+\/clip\/([\w-]+)/)?.[1];
+    return { platform: "twitch", id: clip || null, canonicalUrl: clip ? `https://clips.twitch.tv/${clip}` : "" };
+  }
+
+  if (host === "soundcloud.com") {
+    const track = path.match(/^\/([\w-]+\/[\w-]+)\/?$/)?.[1];
+    return { platform: "soundcloud", id: track ?? null, canonicalUrl: track ? `https://soundcloud.com/${track}` : "" };
+  }
+
+  return null;
+}
+
+// Map a link to its platform, id and canonical URL. Links without a known
+// id (channels, short links, other sites) keep their URL minus tracking
+// parameters. Returns null for anything parseMediaUrl rejects.
+export function normalizeUrl(value: unknown): NormalizedUrl | null {
+  const href = parseMediaUrl(value);
+  if (!href) return null;
+  const url = new URL(href);
+
+  const startTime =
+    parseStartTime(url.searchParams.get("t")) ??
+    parseStartTime(url.searchParams.get("start")) ??
+    parseStartTime(new URLSearchParams(url.hash.slice(1)).get("t"));
+
+  const match = matchPlatform(url);
+  if (match?.canonicalUrl) return { ...match, startTime };
+
+  for (const name of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAMS.test(name) || name === "t" || name === "start") url.searchParams.delete(name);
+  }
+  url.hash = "";
+  return { platform: match?.platform ?? null, id: match?.id ?? null, canonicalUrl: url.href, startTime };
+}
+
+// Player URL for an inline preview, for platforms that allow embedding
+export function embedUrl(normalized: NormalizedUrl | null): string | null {
+  if (!normalized?.id) return null;
+  const { platform, id, canonicalUrl, startTime } = normalized;
+  switch (platform) {
+    case "youtube":
+      if (canonicalUrl.includes("/playlist?")) return `https://www.youtube.com/embed/videoseries?list=${id}`;
+      return `https://www.youtube.com/embed/${id}${startTime ? `?start=${Math.floor(startTime)}` : ""}`;
+    case "vimeo":
+      return `https://player.vimeo.com/video/${id}${startTime ? `#t=${Math.floor(startTime)}s` : ""}`;
+    case "tiktok":
+      return `https://www.tiktok.com/embed/v2/${id}`;
+    case "instagram":
+      return `${canonicalUrl}embed`;
+    default:
+      return null;
+  }
+}
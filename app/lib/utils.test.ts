@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { parseTimeToSeconds } from "./utils";
+
+describe("parseTimeToSeconds", () => {
+  it.each([
+    ["90", 90],
+    ["12.5", 12.5],
+    ["1:30", 90],
+    ["01:02:03", 3723],
+    ["0:05.25", 5.25],
+    [" 2:00 ", 120],
+    [90, 90],
+    [0.5, 0.5],
+  ])("reads %j as %d seconds", (text, seconds) => {
+    expect(parseTimeToSeconds(text)).toBe(seconds);
+  });
+
+  it.each(["", "abc", "1:xx", "-5", "1:2:3:4", "1.5:00", "1e3", "0x10", -5, NaN, Infinity])("rejects %j", (text) => {
+    expect(parseTimeToSeconds(text)).toBeNull();
+  });
+});
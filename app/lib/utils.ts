@@ -3,4 +3,50 @@ import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+
+// Convert a time (ss, mm:ss or hh:mm:ss, seconds may have decimals, or a
+// number of seconds from JSON) to seconds, or null if it isn't one
+export function parseTimeToSeconds(time: string | number): number | null {
+  if (typeof time === "number") return Number.isFinite(time) && time >= 0 ? time : null;
+  const text = time.trim();
+  if (!text) return null;
+
+  const fields = text.split(":");
+  if (!fields.every((field, i) => (i === fields.length - 1 ? /^\d+(\.\d+)?$/ : /^\d+$/).test(field))) return null;
+  const parts = fields.map(Number);
+
+  if (parts.length === 1) {
+    return parts[0];
+  } else if (parts.length === 2) {
+    return parts[0] * 60 + parts[1];
+  } else if (parts.length === 3) {
+    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  }
+  return null;
+}
+
+// Convert seconds to m:ss or h:mm:ss
+export function formatSeconds(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// Run `task` for every item with at most `limit` running at once
+export async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+const FAKE_YTDLP = fileURLToPath(new URL("../../test/fixtures/fake-yt-dlp.js", import.meta.url));
+const VIDEO = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+
+let workDir: string;
+let logPath: string;
+// YTDLP_PATH is read when the module loads, so it is imported after the env is set
+let ytdlp: typeof import("./ytdlp");
+
+// The argument lists the fake yt-dlp was started with, in order
+async function calls(): Promise<string[][]> {
+  const log = await readFile(logPath, "utf8").catch(() => "");
+  return log.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+}
+
+beforeAll(async () => {
+  workDir = await mkdtemp(join(tmpdir(), "ytdlp-test-"));
+  logPath = join(workDir, "calls.log");
+  vi.stubEnv("YTDLP_PATH", FAKE_YTDLP);
+  vi.stubEnv("FAKE_YTDLP_LOG", logPath);
+  vi.resetModules();
+  ytdlp = await import("./ytdlp");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(workDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await writeFile(logPath, "");
+});
+
+describe("getYtDlpVersion", () => {
+  it("runs yt-dlp --version once and caches the result", async () => {
+    expect(await ytdlp.getYtDlpVersion()).toBe("2025.01.15");
+    expect(await ytdlp.getYtDlpVersion()).toBe("2025.01.15");
+    expect(await calls()).toEqual([["--version"]]);
+  });
+});
+
+describe("getInfo", () => {
+  it("passes the common flags and parses the metadata", async () => {
+    const info = await ytdlp.getInfo(VIDEO);
+    expect(info).toMatchObject({ id: "dQw4w9WgXcQ", title: "Fake video", duration: 212, language: "en" });
+    expect(info.formats?.map((format) => format.format_id)).toEqual(["140", "137"]);
+
+    const [args] = await calls();
+    expect(args).toEqual([
+      "--dump-single-json",
+      "--no-playlist",
+      "--no-warnings",
+      "--no-check-certificates",
+      "--geo-bypass",
+      "--user-agent",
+      ytdlp.USER_AGENT,
+      VIDEO,
+    ]);
+  });
+
+  it("maps the playlist options to flags", async () => {
+    await ytdlp.getInfo(VIDEO, { noConfig: true, flatPlaylist: true, playlist: true, playlistEnd: 50, ignoreErrors: true });
+    const [args] = await calls();
+    expect(args.slice(0, 7)).toEqual([
+      "--no-config",
+      "--dump-single-json",
+      "--flat-playlist",
+      "--yes-playlist",
+      "--playlist-end",
+      "50",
+      "--ignore-errors",
+    ]);
+    expect(args[args.length - 1]).toBe(VIDEO);
+  });
+
+  it("keeps the metadata printed before a failure only with ignoreErrors", async () => {
+    const broken = "https://www.youtube.com/watch?v=broken";
+    await expect(ytdlp.getInfo(broken, { ignoreErrors: true })).resolves.toMatchObject({ id: "dQw4w9WgXcQ" });
+    await expect(ytdlp.getInfo(broken)).rejects.toThrow("Requested format is not available");
+  });
+});
+
+describe("listFormats", () => {
+  it("parses the format table", async () => {
+    const formats = await ytdlp.listFormats(VIDEO);
+    expect(formats).toMatchObject([
+      { format_id: "140", ext: "m4a", width: null, height: null, vcodec: "none" },
+      { format_id: "137", ext: "mp4", width: 1920, height: 1080, acodec: "none" },
+    ]);
+    const [args] = await calls();
+    expect(args.slice(0, 2)).toEqual(["--list-formats", "--no-playlist"]);
+  });
+});
+
+describe("getStreamUrl", () => {
+  it("returns the first URL yt-dlp prints", async () => {
+    expect(await ytdlp.getStreamUrl(VIDEO, "best[height<=720]")).toBe("https://media.example.com/video.mp4?sig=1");
+    const [args] = await calls();
+    expect(args.slice(0, 4)).toEqual(["-f", "best[height<=720]", "--get-url", "--no-playlist"]);
+    expect(args[args.length - 1]).toBe(VIDEO);
+  });
+});
+
+describe("download", () => {
+  it("writes to the output template and reports progress", async () => {
+    const onProgress = vi.fn();
+    await ytdlp.download(VIDEO, { format: "best", output: join(workDir, "download.%(ext)s"), args: ["--embed-metadata"], onProgress });
+
+    expect(await readFile(join(workDir, "download.mp4"), "utf8")).toBe("fake video");
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ phase: "downloading", percent: 50, speed: 2048 }));
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ percent: 100, eta: 0 }));
+
+    const [args] = await calls();
+    expect(args.slice(0, 4)).toEqual(["-f", "best", "--embed-metadata", "--newline"]);
+    expect(args.slice(-3)).toEqual(["-o", join(workDir, "download.%(ext)s"), VIDEO]);
+  });
+
+  it("downloads only the requested section", async () => {
+    await ytdlp.downloadSections(VIDEO, { start: 30, end: null }, "accurate", { output: join(workDir, "clip.%(ext)s") });
+    const [args] = await calls();
+    expect(args.slice(0, 3)).toEqual(["--download-sections", "*30-inf", "--force-keyframes-at-cuts"]);
+    expect(args).not.toContain("-f");
+  });
+});
+
+describe("listSubtitles", () => {
+  it("lists parseable uploaded and automatic tracks", async () => {
+    const { tracks, info } = await ytdlp.listSubtitles(VIDEO);
+    expect(tracks).toEqual([
+      { lang: "en", name: "English", automatic: false },
+      { lang: "es-orig", name: "es-orig", automatic: true },
+    ]);
+    expect(info.id).toBe("dQw4w9WgXcQ");
+  });
+});
+
+describe("listThumbnails", () => {
+  it("drops thumbnails without an http(s) URL", async () => {
+    const thumbnails = await ytdlp.listThumbnails(VIDEO);
+    expect(thumbnails.map((thumb) => thumb.url)).toEqual([
+      "https://i.ytimg.com/vi/dQw4w9WgXcQ/default.jpg",
+      "https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg",
+    ]);
+  });
+});
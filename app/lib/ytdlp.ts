@@ -0,0 +1,285 @@
+import { runProcess, spawnProcess, ProcessError } from "./process";
+import { runWithProgress, parseYtDlpLine, YTDLP_PROGRESS_ARGS, type JobProgress } from "./progress";
+import { downloadSectionArgs, type CutMode } from "./clip";
+import { listSubtitleTracks, type SubtitleTrack } from "./subtitles";
+import { parseMediaUrl } from "./urls";
+
+// Every yt-dlp invocation goes through here, so flags, the user agent, the
+// binary lookup and JSON parsing are the same for all routes and jobs.
+
+// The binary can be swapped, e.g. for a pinned build outside PATH
+export const YTDLP_BINARY = process.env.YTDLP_PATH || "yt-dlp";
+
+export const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+
+// One entry of yt-dlp's `formats`; only the fields the app reads are typed
+export interface Format {
+  format_id: string;
+  ext?: string;
+  width?: number | null;
+  height?: number | null;
+  fps?: number | null;
+  vcodec?: string | null;
+  acodec?: string | null;
+  filesize?: number | null;
+  filesize_approx?: number | null;
+  // Kbit/s
+  tbr?: number | null;
+  format_note?: string | null;
+  url?: string;
+  [key: string]: unknown;
+}
+
+export interface Thumbnail {
+  url: string;
+  id?: string;
+  width?: number;
+  height?: number;
+  preference?: number;
+}
+
+export interface SubtitleFile {
+  ext: string;
+  url?: string;
+  name?: string;
+}
+
+// What `--dump-single-json` prints for a video, or for a playlist with `entries`
+export interface VideoInfo {
+  _type?: "video" | "playlist" | "url" | "url_transparent";
+  id: string;
+  title?: string;
+  // Seconds
+  duration?: number | null;
+  uploader?: string | null;
+  channel?: string | null;
+  // YYYYMMDD
+  upload_date?: string | null;
+  view_count?: number | null;
+  like_count?: number | null;
+  extractor?: string;
+  // Language spoken in the video, when the site says
+  language?: string | null;
+  webpage_url?: string;
+  thumbnail?: string | null;
+  thumbnails?: Thumbnail[];
+  formats?: Format[];
+  subtitles?: Record<string, SubtitleFile[]>;
+  automatic_captions?: Record<string, SubtitleFile[]>;
+  entries?: VideoInfo[];
+  [key: string]: unknown;
+}
+
+export interface YtDlpOptions {
+  signal?: AbortSignal;
+  // Milliseconds
+  timeout?: number;
+}
+
+export interface InfoOptions extends YtDlpOptions {
+  // List playlist entries without extracting each of them
+  flatPlaylist?: boolean;
+  // Treat watch?v=...&list=... as the playlist rather than the video
+  playlist?: boolean;
+  playlistEnd?: number;
+  // Ignore local and global yt-dlp config files
+  noConfig?: boolean;
+  // Keep the metadata yt-dlp printed even when it exits non-zero
+  ignoreErrors?: boolean;
+}
+
+export interface DownloadOptions extends YtDlpOptions {
+  // Format selector; yt-dlp's default when left out
+  format?: string;
+  // Output template, e.g. "/tmp/job/download.%(ext)s"
+  output: string;
+  // Post-processing and metadata flags: audio extraction, container, embedding, info file
+  args?: string[];
+  onProgress?: (progress: Partial<JobProgress>) => void;
+}
+
+// Metadata can be large for long videos with many formats
+const MAX_INFO_BYTES = 20 * 1024 * 1024;
+
+const INFO_TIMEOUT_MS = 45000;
+const STREAM_URL_TIMEOUT_MS = 30000;
+
+// A failed lookup is retried after this long, in case yt-dlp was installed meanwhile
+const MISSING_BINARY_RETRY_MS = 30000;
+
+// Flags every invocation gets
+const COMMON_ARGS = ["--no-warnings", "--no-check-certificates", "--geo-bypass", "--user-agent", USER_AGENT];
+
+let versionCheck: Promise<string | null> | null = null;
+
+// The installed yt-dlp version, or null if it can't be run. Looked up once
+// per process rather than on every request.
+export function getYtDlpVersion(): Promise<string | null> {
+  if (!versionCheck) {
+    const check = runProcess(YTDLP_BINARY, ["--version"], { timeout: 10000 }).then(
+      ({ stdout }) => stdout.trim() || null,
+      (error) => {
+        console.error("yt-dlp not found:", error);
+        return null;
+      }
+    );
+    versionCheck = check;
+    check.then((version) => {
+      if (version) return;
+      setTimeout(() => {
+        if (versionCheck === check) versionCheck = null;
+      }, MISSING_BINARY_RETRY_MS).unref?.();
+    });
+  }
+  return versionCheck;
+}
+
+function parseInfo(stdout: string): VideoInfo | null {
+  try {
+    const info = JSON.parse(stdout);
+    return info && typeof info === "object" ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+// Metadata of a video, playlist or channel
+export async function getInfo(url: string, options: InfoOptions = {}): Promise<VideoInfo> {
+  const { signal, timeout = INFO_TIMEOUT_MS, flatPlaylist, playlist, playlistEnd, noConfig, ignoreErrors } = options;
+  const args = [
+    ...(noConfig ? ["--no-config"] : []),
+    "--dump-single-json",
+    ...(flatPlaylist ? ["--flat-playlist"] : []),
+    playlist ? "--yes-playlist" : "--no-playlist",
+    ...(playlistEnd ? ["--playlist-end", String(playlistEnd)] : []),
+    ...(ignoreErrors ? ["--ignore-errors"] : []),
+    ...COMMON_ARGS,
+    url,
+  ];
+
+  let stdout: string;
+  try {
+    ({ stdout } = await runProcess(YTDLP_BINARY, args, { signal, timeout, maxOutput: MAX_INFO_BYTES }));
+  } catch (error: any) {
+    // With --ignore-errors yt-dlp may exit non-zero after printing usable metadata
+    const partial = ignoreErrors && error instanceof ProcessError ? parseInfo(error.stdout) : null;
+    if (partial) {
+      console.warn("yt-dlp exited with an error, using the metadata it printed:", error.message);
+      return partial;
+    }
+    throw error;
+  }
+
+  const info = parseInfo(stdout);
+  if (!info) throw new Error("yt-dlp returned no metadata for this URL");
+  return info;
+}
+
+// The formats a video offers, without applying a format selector. Read from
+// the `--list-formats` table, so it works even when the default selection
+// fails; only id, extension and resolution are filled in.
+export async function listFormats(url: string, options: YtDlpOptions = {}): Promise<Format[]> {
+  const { stdout } = await runProcess(YTDLP_BINARY, ["--list-formats", "--no-playlist", ...COMMON_ARGS, url], {
+    signal: options.signal,
+    timeout: options.timeout ?? STREAM_URL_TIMEOUT_MS,
+    maxOutput: 5 * 1024 * 1024,
+  });
+  return parseFormatTable(stdout);
+}
+
+// Rows below the dashed rule of the table, e.g.
+// "137 mp4   1920x1080   30 | 93.46MiB 4386k https | avc1.640028 4386k video only 1080p"
+function parseFormatTable(output: string): Format[] {
+  const lines = output.split(/\r?\n/);
+  const rule = lines.findIndex((line) => /^[-─]{10,}\s*$/.test(line.trim()));
+  if (rule < 0) return [];
+
+  const formats: Format[] = [];
+  for (const line of lines.slice(rule + 1)) {
+    const [id, ext] = line.trim().split(/\s+/);
+    if (!id || !ext) continue;
+    const size = line.match(/\b(\d+)x(\d+)\b/);
+    const audioOnly = /audio only/.test(line);
+    formats.push({
+      format_id: id,
+      ext,
+      width: size ? Number(size[1]) : null,
+      height: size ? Number(size[2]) : null,
+      vcodec: audioOnly ? "none" : null,
+      acodec: /video only/.test(line) ? "none" : null,
+      format_note: line.trim(),
+    });
+  }
+  return formats;
+}
+
+// Direct media URL for a format, e.g. to feed ffmpeg. Merged selections
+// ("video+audio") return the URL of their first stream.
+export async function getStreamUrl(url: string, format: string, options: YtDlpOptions = {}): Promise<string> {
+  const { stdout } = await runProcess(YTDLP_BINARY, ["-f", format, "--get-url", "--no-playlist", ...COMMON_ARGS, url], {
+    signal: options.signal,
+    timeout: options.timeout ?? STREAM_URL_TIMEOUT_MS,
+  });
+  const streamUrl = parseMediaUrl(stdout.trim().split("\n")[0]);
+  if (!streamUrl) throw new Error("Could not get video URL from yt-dlp");
+  return streamUrl;
+}
+
+function downloadArgs(url: string, format: string | undefined, args: string[], output: string): string[] {
+  return [...(format ? ["-f", format] : []), ...args, "--no-playlist", ...COMMON_ARGS, "-o", output, url];
+}
+
+// Download to `output`, reporting progress as yt-dlp prints it
+export async function download(url: string, options: DownloadOptions): Promise<void> {
+  const { format, output, args = [], signal, timeout, onProgress } = options;
+  await runWithProgress(YTDLP_BINARY, downloadArgs(url, format, [...args, ...YTDLP_PROGRESS_ARGS], output), {
+    signal,
+    timeout,
+    onLine: (line) => {
+      const progress = parseYtDlpLine(line);
+      if (progress) onProgress?.(progress);
+    },
+  });
+}
+
+// Download only a time range instead of the whole video. A missing start
+// means "from the beginning", a missing end "to the end".
+export async function downloadSections(
+  url: string,
+  section: { start: number | null; end: number | null },
+  cutMode: CutMode,
+  options: DownloadOptions
+): Promise<void> {
+  await download(url, {
+    ...options,
+    args: [...downloadSectionArgs(section.start, section.end, cutMode), ...(options.args ?? [])],
+  });
+}
+
+// Start a download that writes the media to stdout, for piping straight to a client
+export function streamDownload(url: string, options: Omit<DownloadOptions, "output" | "onProgress" | "timeout">) {
+  const { format, args = [], signal } = options;
+  return spawnProcess(YTDLP_BINARY, downloadArgs(url, format, args, "-"), signal);
+}
+
+// Subtitle languages a video offers, without downloading anything
+export async function listSubtitles(
+  url: string,
+  options: YtDlpOptions = {}
+): Promise<{ tracks: SubtitleTrack[]; info: VideoInfo }> {
+  const info = await getInfo(url, options);
+  return { tracks: listSubtitleTracks(info), info };
+}
+
+// Thumbnails a video offers, largest last as yt-dlp sorts them
+export async function listThumbnails(url: string, options: YtDlpOptions = {}): Promise<Thumbnail[]> {
+  return thumbnailsOf(await getInfo(url, options));
+}
+
+// The usable thumbnails of already fetched metadata
+export function thumbnailsOf(info: VideoInfo): Thumbnail[] {
+  const thumbnails = (info.thumbnails ?? []).filter((thumb) => parseMediaUrl(thumb.url));
+  if (thumbnails.length === 0 && info.thumbnail) return [{ url: info.thumbnail }];
+  return thumbnails;
+}
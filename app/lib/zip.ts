@@ -0,0 +1,263 @@
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+
+// Streams ZIP archives without buffering them. Entries are stored, not
+// deflated: video and audio are already compressed. ZIP64 records are written
+// only when an entry, an offset or the entry count outgrows the classic format.
+
+export interface ZipEntry {
+  // Path inside the archive, "/"-separated
+  name: string;
+  // Either a file on disk or in-memory content
+  path?: string;
+  data?: Uint8Array | string;
+  mtime?: Date;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// General purpose flags: sizes follow in a data descriptor (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(crc: number, bytes: Uint8Array): number {
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+// MS-DOS date and time, which is what the fixed header fields hold
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+  zip64: boolean;
+}
+
+function localHeader(name: Buffer, time: number, date: number, zip64: boolean): Buffer {
+  // Sizes and CRC are left zero here and written to the data descriptor
+  const extra = zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(16, 2);
+  }
+
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(zip64 ? 45 : 20, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(zip64 ? MAX_32 : 0, 18);
+  header.writeUInt32LE(zip64 ? MAX_32 : 0, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, name, extra]);
+}
+
+function dataDescriptor(crc: number, size: number, zip64: boolean): Buffer {
+  const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  if (zip64) {
+    descriptor.writeBigUInt64LE(BigInt(size), 8);
+    descriptor.writeBigUInt64LE(BigInt(size), 16);
+  } else {
+    descriptor.writeUInt32LE(size, 8);
+    descriptor.writeUInt32LE(size, 12);
+  }
+  return descriptor;
+}
+
+function centralHeader(record: CentralRecord): Buffer {
+  const bigSize = record.size >= MAX_32;
+  const bigOffset = record.offset >= MAX_32;
+
+  const extraFields: Buffer[] = [];
+  if (bigSize) {
+    const sizes = Buffer.alloc(16);
+    sizes.writeBigUInt64LE(BigInt(record.size), 0);
+    sizes.writeBigUInt64LE(BigInt(record.size), 8);
+    extraFields.push(sizes);
+  }
+  if (bigOffset) {
+    const offset = Buffer.alloc(8);
+    offset.writeBigUInt64LE(BigInt(record.offset), 0);
+    extraFields.push(offset);
+  }
+  let extra = Buffer.alloc(0);
+  if (extraFields.length > 0) {
+    const body = Buffer.concat(extraFields);
+    const tag = Buffer.alloc(4);
+    tag.writeUInt16LE(0x0001, 0);
+    tag.writeUInt16LE(body.length, 2);
+    extra = Buffer.concat([tag, body]);
+  }
+
+  const version = record.zip64 || bigOffset ? 45 : 20;
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(version, 4);
+  header.writeUInt16LE(version, 6);
+  header.writeUInt16LE(FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(bigSize ? MAX_32 : record.size, 20);
+  header.writeUInt32LE(bigSize ? MAX_32 : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt16LE(0, 32);
+  header.writeUInt16LE(0, 34);
+  header.writeUInt16LE(0, 36);
+  header.writeUInt32LE(0, 38);
+  header.writeUInt32LE(bigOffset ? MAX_32 : record.offset, 42);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const needsZip64 = count >= MAX_16 || size >= MAX_32 || offset >= MAX_32;
+  const parts: Buffer[] = [];
+
+  if (needsZip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeUInt32LE(0, 16);
+    record.writeUInt32LE(0, 20);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(size), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeUInt32LE(0, 4);
+    // The ZIP64 record starts right after the central directory
+    locator.writeBigUInt64LE(BigInt(offset + size), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(Math.min(count, MAX_16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_16), 10);
+  end.writeUInt32LE(Math.min(size, MAX_32), 12);
+  end.writeUInt32LE(Math.min(offset, MAX_32), 16);
+  end.writeUInt16LE(0, 20);
+  parts.push(end);
+
+  return Buffer.concat(parts);
+}
+
+// Make every name unique within the archive: "a.mp4", "a (2).mp4", ...
+export function uniqueName(name: string, used: Set<string>): string {
+  const clean = name.replace(/\\/g, "/").replace(/^\/+/, "") || "file";
+  let candidate = clean;
+  const dot = clean.lastIndexOf(".");
+  const [stem, ext] = dot > 0 ? [clean.slice(0, dot), clean.slice(dot)] : [clean, ""];
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function* zipChunks(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const records: CentralRecord[] = [];
+  const used = new Set<string>();
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(uniqueName(entry.name, used), "utf8");
+    const data = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data;
+    const fileStat = entry.path ? await stat(entry.path) : null;
+    const expectedSize = fileStat ? fileStat.size : data?.length ?? 0;
+    const { time, date } = dosDateTime(entry.mtime ?? fileStat?.mtime ?? new Date());
+    const zip64 = expectedSize >= MAX_32;
+
+    const header = localHeader(name, time, date, zip64);
+    const entryOffset = offset;
+    yield header;
+    offset += header.length;
+
+    let crc = 0;
+    let size = 0;
+    if (entry.path) {
+      for await (const chunk of createReadStream(entry.path, { highWaterMark: 1024 * 1024 })) {
+        const bytes = chunk as Buffer;
+        crc = crc32(crc, bytes);
+        size += bytes.length;
+        yield bytes;
+      }
+    } else if (data) {
+      crc = crc32(crc, data);
+      size = data.length;
+      yield data;
+    }
+    offset += size;
+
+    // The descriptor format was fixed by the local header, so a file that grew
+    // past 4 GiB while being read can't be represented
+    if (!zip64 && size >= MAX_32) throw new Error(`${entry.name} changed while it was being archived`);
+
+    const descriptor = dataDescriptor(crc, size, zip64);
+    yield descriptor;
+    offset += descriptor.length;
+
+    records.push({ name, crc, size, offset: entryOffset, time, date, zip64 });
+  }
+
+  const centralOffset = offset;
+  let centralSize = 0;
+  for (const record of records) {
+    const header = centralHeader(record);
+    yield header;
+    centralSize += header.length;
+  }
+
+  yield endOfCentralDirectory(records.length, centralSize, centralOffset);
+}
+
+// A ZIP archive as a web stream. Entries are read one at a time as the client
+// pulls, so a slow client slows down reading rather than filling memory.
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -2,7 +2,9 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { ArrowRight, Loader2 } from "lucide-react";
+import { isSupportedUrl } from "./lib/urls";
 
 export default function Home() {
   const [url, setUrl] = useState("");
@@ -10,27 +12,6 @@ export default function Home() {
   const [error, setError] = useState("");
   const router = useRouter();
 
-  const platforms = [
-    "youtube.com",
-    "youtu.be",
-    "vimeo.com",
-    "tiktok.com",
-    "instagram.com",
-    "twitter.com",
-    "facebook.com",
-    "twitch.tv",
-    "soundcloud.com",
-  ];
-
-  const isValidUrl = (url: string) => {
-    try {
-      new URL(url);
-      return platforms.some((platform) => url.includes(platform));
-    } catch {
-      return false;
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -40,7 +21,7 @@ export default function Home() {
       return;
     }
 
-    if (!isValidUrl(url)) {
+    if (!isSupportedUrl(url)) {
       setError("Please enter a valid video URL");
       return;
     }
@@ -90,6 +71,13 @@ export default function Home() {
           {error && (
             <p className="text-red-500 text-sm">{error}</p>
           )}
+
+          <p className="text-sm text-muted-foreground">
+            Have a list of links?{" "}
+            <Link href="/batch" className="underline hover:text-foreground transition-colors">
+              Download them in one go
+            </Link>
+          </p>
         </form>
 
         <div className="pt-8 border-t border-dashed">
@@ -0,0 +1,385 @@
+"use client";
+
+import { useState, useEffect, useRef, Suspense } from "react";
+import { useSearchParams, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, Check } from "lucide-react";
+import { FormatSelector, AUDIO_FORMAT_ID } from "../components/FormatSelector";
+import { JobProgressBar } from "../components/JobProgressBar";
+import { defaultAudioOptions, type AudioOptions } from "../lib/audio";
+import { formatForHeight } from "../lib/formats";
+import { defaultVideoOptions, type VideoOptions } from "../lib/container";
+import { runJob, downloadJobFile } from "../lib/jobs-client";
+import { downloadArchive } from "../lib/archive-client";
+import type { JobProgress, BatchItemSnapshot } from "../lib/jobs";
+import type { PlaylistInfo } from "../lib/playlist";
+import { formatSeconds } from "../lib/utils";
+
+type BatchMode = "sequential" | "zip" | "stream";
+
+interface ItemState {
+  status: BatchItemSnapshot["status"];
+  error: string | null;
+}
+
+function PlaylistContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const url = searchParams.get("url") || "";
+
+  const [playlist, setPlaylist] = useState<PlaylistInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [selectedFormat, setSelectedFormat] = useState(formatForHeight(720));
+  const [audioOptions, setAudioOptions] = useState<AudioOptions>(defaultAudioOptions);
+  const [videoOptions, setVideoOptions] = useState<VideoOptions>(defaultVideoOptions);
+  const [embedMetadata, setEmbedMetadata] = useState(false);
+  const [mode, setMode] = useState<BatchMode>("sequential");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [itemStates, setItemStates] = useState<Record<string, ItemState>>({});
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop the server-side jobs if the user navigates away mid-download
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!url) {
+      router.push("/");
+      return;
+    }
+
+    const fetchPlaylist = async () => {
+      setLoading(true);
+      setError("");
+
+      try {
+        const response = await fetch("/api/playlist", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url }),
+        });
+
+        const data = await response.json();
+        if (response.ok) {
+          setPlaylist(data);
+          setSelected(new Set(data.entries.map((entry: { id: string }) => entry.id)));
+        } else {
+          setError(data.error || "Failed to fetch playlist");
+        }
+      } catch (err) {
+        setError("Failed to fetch playlist");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlaylist();
+  }, [url, router]);
+
+  const entries = playlist?.entries ?? [];
+  const chosen = entries.filter((entry) => selected.has(entry.id));
+  const isAudio = selectedFormat === AUDIO_FORMAT_ID;
+
+  const toggleEntry = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const setItemState = (id: string, state: ItemState) =>
+    setItemStates((states) => ({ ...states, [id]: state }));
+
+  // The same choice applies to every item
+  const downloadOptions = {
+    format: selectedFormat,
+    audio: isAudio ? audioOptions : undefined,
+    video: isAudio ? undefined : videoOptions,
+    embedMetadata,
+  };
+
+  // One job per item, each saved as soon as it is done
+  const downloadSequentially = async (signal: AbortSignal) => {
+    for (let i = 0; i < chosen.length; i++) {
+      const entry = chosen[i];
+      setItemState(entry.id, { status: "running", error: null });
+      try {
+        const job = await runJob(
+          { type: "download", url: entry.url, ...downloadOptions },
+          (snapshot) =>
+            setProgress({
+              ...snapshot.progress,
+              // Overall progress across the selection
+              percent: ((i + (snapshot.progress.percent ?? 0) / 100) / chosen.length) * 100,
+              eta: null,
+            }),
+          signal
+        );
+        downloadJobFile(job);
+        setItemState(entry.id, { status: "completed", error: null });
+      } catch (err: any) {
+        if (err.name === "AbortError") throw err;
+        setItemState(entry.id, { status: "failed", error: err.message || "Download failed" });
+      }
+    }
+  };
+
+  // One batch job on the server, delivered as a single ZIP
+  const downloadAsZip = async (signal: AbortSignal) => {
+    const job = await runJob(
+      {
+        type: "batch",
+        name: playlist?.title,
+        items: chosen.map((entry) => ({ url: entry.url, title: entry.title })),
+        ...downloadOptions,
+      },
+      (snapshot) => {
+        setProgress(snapshot.progress);
+        snapshot.items?.forEach((item, i) => {
+          if (chosen[i]) setItemState(chosen[i].id, { status: item.status, error: item.error });
+        });
+      },
+      signal
+    );
+    downloadJobFile(job);
+  };
+
+  // Items are downloaded while the ZIP is sent; the browser shows the progress
+  const streamZip = () => {
+    downloadArchive({
+      name: playlist?.title,
+      items: chosen.map((entry) => ({ type: "download", url: entry.url, ...downloadOptions })),
+    });
+  };
+
+  const startDownload = async () => {
+    if (chosen.length === 0) return;
+    if (mode === "stream") {
+      streamZip();
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setBatchError(null);
+    setProgress(null);
+    setItemStates(Object.fromEntries(chosen.map((entry) => [entry.id, { status: "queued", error: null }])));
+
+    try {
+      if (mode === "zip") await downloadAsZip(controller.signal);
+      else await downloadSequentially(controller.signal);
+    } catch (err: any) {
+      if (err.name !== "AbortError") setBatchError(err.message || "Download failed");
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-dvh flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <Loader2 className="w-10 h-10 animate-spin mx-auto" />
+          <p className="text-muted-foreground">Loading playlist...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !playlist) {
+    return (
+      <div className="min-h-dvh flex items-center justify-center p-4">
+        <div className="text-center space-y-4 max-w-md">
+          <div className="text-6xl">😕</div>
+          <h2 className="text-xl font-medium">Something went wrong</h2>
+          <p className="text-muted-foreground">{error || "Failed to fetch playlist"}</p>
+          <button
+            onClick={() => router.push("/")}
+            className="px-4 py-2 border border-dashed hover:bg-muted transition-colors"
+          >
+            Try another URL
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <main className="min-h-dvh">
+      {/* Back button */}
+      <div className="border-b border-dashed">
+        <div className="max-w-4xl mx-auto px-4 py-3">
+          <button
+            onClick={() => router.push("/")}
+            className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Playlist Title & Info */}
+        <div className="space-y-2">
+          <h1 className="text-xl md:text-2xl font-medium">{playlist.title}</h1>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+            {playlist.uploader && <span>{playlist.uploader}</span>}
+            <span>• {entries.length} videos</span>
+            {playlist.truncated && <span>• only the first {entries.length} are listed</span>}
+          </div>
+        </div>
+
+        {/* Item list */}
+        <div className="border border-dashed overflow-hidden">
+          <div className="p-3 border-b border-dashed bg-card flex items-center justify-between">
+            <span className="text-sm font-medium">
+              {chosen.length} of {entries.length} selected
+            </span>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setSelected(new Set(entries.map((entry) => entry.id)))}
+                disabled={running}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                all
+              </button>
+              <button
+                onClick={() => setSelected(new Set())}
+                disabled={running}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                none
+              </button>
+            </div>
+          </div>
+          <div className="max-h-[28rem] overflow-y-auto divide-y divide-dashed">
+            {entries.map((entry, index) => {
+              const isSelected = selected.has(entry.id);
+              const state = itemStates[entry.id];
+              return (
+                <button
+                  key={entry.id}
+                  onClick={() => toggleEntry(entry.id)}
+                  disabled={running}
+                  className="w-full flex items-center gap-3 p-2 text-left hover:bg-muted transition-colors"
+                >
+                  <span
+                    className={`w-4 h-4 shrink-0 border border-dashed flex items-center justify-center ${
+                      isSelected ? "bg-foreground text-background" : ""
+                    }`}
+                  >
+                    {isSelected && <Check className="w-3 h-3" />}
+                  </span>
+                  <span className="w-6 shrink-0 text-xs text-muted-foreground text-right">{index + 1}</span>
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt="" className="w-20 aspect-video object-cover shrink-0" />
+                  ) : (
+                    <span className="w-20 aspect-video bg-muted shrink-0" />
+                  )}
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm truncate">{entry.title}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {entry.duration !== null ? formatSeconds(entry.duration) : "--:--"}
+                      {state && (
+                        <span className={state.status === "failed" ? " text-red-500" : ""}>
+                          {" "}• {state.status === "failed" ? state.error : state.status}
+                        </span>
+                      )}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Format Selector */}
+        <FormatSelector
+          selected={selectedFormat}
+          onChange={setSelectedFormat}
+          audio={audioOptions}
+          onAudioChange={setAudioOptions}
+          video={videoOptions}
+          onVideoChange={setVideoOptions}
+        />
+
+        {/* Metadata toggle */}
+        <button
+          onClick={() => setEmbedMetadata(!embedMetadata)}
+          className={`w-full flex items-center justify-between p-3 border border-dashed text-sm transition-colors ${
+            embedMetadata ? "bg-foreground text-background" : "bg-background hover:bg-muted"
+          }`}
+        >
+          <span>embed metadata, chapters and cover art</span>
+          <span className="text-xs">{embedMetadata ? "on" : "off"}</span>
+        </button>
+
+        {/* Delivery mode */}
+        <div className="grid grid-cols-3 gap-2">
+          {(["sequential", "zip", "stream"] as BatchMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={running}
+              className={`p-2 border border-dashed text-xs transition-colors ${
+                mode === m ? "bg-foreground text-background" : "bg-background hover:bg-muted"
+              }`}
+            >
+              {m === "zip" ? "one ZIP archive" : m === "stream" ? "streamed ZIP" : "one file at a time"}
+            </button>
+          ))}
+        </div>
+
+        {/* Download Button */}
+        <div className="space-y-3">
+          <button
+            onClick={startDownload}
+            disabled={running || chosen.length === 0}
+            className={`w-full py-3 px-6 border border-dashed font-medium transition-colors ${
+              running || chosen.length === 0
+                ? "bg-muted cursor-not-allowed text-muted-foreground"
+                : "bg-foreground text-background hover:bg-foreground/90"
+            }`}
+          >
+            {running ? "downloading..." : `download ${chosen.length} ${chosen.length === 1 ? "video" : "videos"}`}
+          </button>
+
+          {running && progress && <JobProgressBar progress={progress} />}
+
+          {running && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full py-2 px-6 border border-dashed text-sm hover:bg-muted transition-colors"
+            >
+              cancel
+            </button>
+          )}
+
+          {batchError && (
+            <div className="p-3 border border-dashed border-red-500 bg-red-500/10">
+              <p className="text-sm text-red-500">{batchError}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function PlaylistPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-dvh flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin" />
+      </div>
+    }>
+      <PlaylistContent />
+    </Suspense>
+  );
+}
@@ -2,15 +2,30 @@
 
 import { Loader2, Sparkles } from "lucide-react";
 import { Iphone } from "../../components/ui/iphone";
+import { ShortsSettings } from "./ShortsSettings";
+import type { ShortsOptions } from "../../lib/shorts-options";
 
 interface GenerateFormProps {
   generating: boolean;
   step: "idle" | "transcribing" | "analyzing" | "generating";
   error: string;
+  options: ShortsOptions;
+  onOptionsChange: (options: ShortsOptions) => void;
+  language: string;
+  onLanguageChange: (language: string) => void;
   onGenerate: () => void;
 }
 
-export function GenerateForm({ generating, step, error, onGenerate }: GenerateFormProps) {
+export function GenerateForm({
+  generating,
+  step,
+  error,
+  options,
+  onOptionsChange,
+  language,
+  onLanguageChange,
+  onGenerate,
+}: GenerateFormProps) {
   const demoVideo = "https://videos.pexels.com/video-files/8946986/8946986-uhd_1440_2732_25fps.mp4";
 
   return (
@@ -29,11 +44,23 @@ export function GenerateForm({ generating, step, error, onGenerate }: GenerateFo
           </div>
 
           <div className="space-y-3">
-            <StepIndicator step={1} label="Transcribe video with AI" active={step === "transcribing"} />
+            <StepIndicator step={1} label="Read subtitles or transcribe speech" active={step === "transcribing"} />
             <StepIndicator step={2} label="Analyze for engaging moments" active={step === "analyzing"} />
-            <StepIndicator step={3} label="Generate 30-60 sec clips" active={step === "generating"} />
+            <StepIndicator
+              step={3}
+              label={`Generate ${options.minDuration}-${options.maxDuration} sec clips`}
+              active={step === "generating"}
+            />
           </div>
 
+          <ShortsSettings
+            options={options}
+            onChange={onOptionsChange}
+            language={language}
+            onLanguageChange={onLanguageChange}
+            disabled={generating}
+          />
+
           <button
             onClick={onGenerate}
             disabled={generating}
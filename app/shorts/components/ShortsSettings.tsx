@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  SHORTS_PLATFORMS,
+  SHORTS_LIMITS,
+  DEFAULT_KEYWORD_WEIGHT,
+  defaultShortsOptions,
+  type ShortsOptions,
+  type ShortsPlatform,
+  type ShortsKeyword,
+  type ExcludedRange,
+} from "../../lib/shorts-options";
+
+interface ShortsSettingsProps {
+  options: ShortsOptions;
+  onChange: (options: ShortsOptions) => void;
+  language: string;
+  onLanguageChange: (language: string) => void;
+  disabled?: boolean;
+}
+
+// The intro is excluded as { start: 0, end }, the outro as { start: -seconds }
+const isIntro = (range: ExcludedRange) => range.start === 0 && range.end !== null;
+const isOutro = (range: ExcludedRange) => range.start < 0 && range.end === null;
+
+function formatKeywords(keywords: ShortsKeyword[]): string {
+  return keywords
+    .map(({ word, weight }) => (weight === DEFAULT_KEYWORD_WEIGHT ? word : `${word}:${weight}`))
+    .join(", ");
+}
+
+// "secret, giveaway:25, sponsor:-30" - a weight after the colon, 10 without one
+function parseKeywords(text: string): ShortsKeyword[] {
+  return text
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .slice(0, SHORTS_LIMITS.keywords)
+    .map((entry) => {
+      const match = entry.match(/^(.*?):\s*(-?\d+(?:\.\d+)?)$/);
+      return match
+        ? { word: match[1].trim().toLowerCase(), weight: Number(match[2]) }
+        : { word: entry.toLowerCase(), weight: DEFAULT_KEYWORD_WEIGHT };
+    })
+    .filter((keyword) => keyword.word);
+}
+
+export function ShortsSettings({ options, onChange, language, onLanguageChange, disabled }: ShortsSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [keywordText, setKeywordText] = useState(() => formatKeywords(options.keywords));
+
+  const intro = options.exclude.find(isIntro)?.end ?? 0;
+  const outro = -(options.exclude.find(isOutro)?.start ?? 0);
+
+  const update = (changes: Partial<ShortsOptions>) => onChange({ ...options, ...changes });
+
+  // Changing a duration by hand leaves the platform preset
+  const updateDuration = (changes: Partial<ShortsOptions>) => update({ ...changes, platform: "custom" });
+
+  const selectPlatform = (platform: ShortsPlatform) => {
+    const { minDuration, maxDuration, idealDuration } = SHORTS_PLATFORMS[platform];
+    update(platform === "custom" ? { platform } : { platform, minDuration, maxDuration, idealDuration });
+  };
+
+  const setSkip = (kind: "intro" | "outro", seconds: number) => {
+    const others = options.exclude.filter((range) => !(kind === "intro" ? isIntro(range) : isOutro(range)));
+    if (!(seconds > 0)) return update({ exclude: others });
+    const range = kind === "intro" ? { start: 0, end: seconds } : { start: -seconds, end: null };
+    update({ exclude: [...others, range] });
+  };
+
+  const numberInput = (value: number, onValue: (value: number) => void, props: { min?: number; max?: number; step?: number } = {}) => (
+    <input
+      type="number"
+      value={Number.isFinite(value) ? value : ""}
+      onChange={(e) => onValue(e.target.value === "" ? NaN : Number(e.target.value))}
+      disabled={disabled}
+      {...props}
+      className="w-full px-3 py-2 border border-dashed bg-transparent focus:ring-0 focus:outline-none text-sm"
+    />
+  );
+
+  return (
+    <div className="border border-dashed text-left">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-3 text-sm hover:bg-muted transition-colors"
+      >
+        <span>
+          <span className="font-medium">settings</span>
+          <span className="text-muted-foreground">
+            {" "}• {SHORTS_PLATFORMS[options.platform].label}, {options.count} clips of {options.minDuration}-
+            {options.maxDuration}s
+          </span>
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="p-4 space-y-4 border-t border-dashed">
+          <div>
+            <label className="block text-sm font-medium mb-1">platform</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(SHORTS_PLATFORMS) as ShortsPlatform[]).map((platform) => (
+                <button
+                  key={platform}
+                  onClick={() => selectPlatform(platform)}
+                  disabled={disabled}
+                  className={`p-2 border border-dashed text-sm text-left transition-colors ${
+                    options.platform === platform ? "bg-foreground text-background" : "hover:bg-muted"
+                  }`}
+                >
+                  {SHORTS_PLATFORMS[platform].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">min length (s)</label>
+              {numberInput(options.minDuration, (minDuration) => updateDuration({ minDuration }), {
+                min: SHORTS_LIMITS.minDuration,
+                max: SHORTS_LIMITS.maxDuration,
+              })}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">ideal (s)</label>
+              {numberInput(options.idealDuration, (idealDuration) => updateDuration({ idealDuration }), {
+                min: SHORTS_LIMITS.minDuration,
+                max: SHORTS_LIMITS.maxDuration,
+              })}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">max length (s)</label>
+              {numberInput(options.maxDuration, (maxDuration) => updateDuration({ maxDuration }), {
+                min: SHORTS_LIMITS.minDuration,
+                max: SHORTS_LIMITS.maxDuration,
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">clips</label>
+              {numberInput(options.count, (count) => update({ count }), { min: 1, max: SHORTS_LIMITS.count, step: 1 })}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">allowed overlap (s)</label>
+              {numberInput(options.overlap, (overlap) => update({ overlap }), { min: 0 })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">skip intro (s)</label>
+              {numberInput(intro, (seconds) => setSkip("intro", seconds), { min: 0 })}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">skip outro (s)</label>
+              {numberInput(outro, (seconds) => setSkip("outro", seconds), { min: 0 })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">snap cuts to pauses within (s)</label>
+            {numberInput(options.boundaryTolerance, (boundaryTolerance) => update({ boundaryTolerance }), {
+              min: 0,
+              max: SHORTS_LIMITS.boundaryTolerance,
+              step: 0.5,
+            })}
+            <p className="text-xs text-muted-foreground mt-1">
+              Moves each clip&apos;s start and end to the nearest sentence end or silence; 0 turns it off
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">keywords</label>
+            <input
+              type="text"
+              value={keywordText}
+              onChange={(e) => {
+                setKeywordText(e.target.value);
+                update({ keywords: parseKeywords(e.target.value) });
+              }}
+              disabled={disabled}
+              placeholder="secret, giveaway:25, sponsor:-30"
+              className="w-full px-3 py-2 border border-dashed bg-transparent focus:ring-0 focus:outline-none text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Clips mentioning these score higher; a weight after the colon ({DEFAULT_KEYWORD_WEIGHT} without one),
+              negative to avoid them
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">transcript language</label>
+            <input
+              type="text"
+              value={language}
+              onChange={(e) => onLanguageChange(e.target.value.trim())}
+              disabled={disabled}
+              placeholder="auto"
+              className="w-full px-3 py-2 border border-dashed bg-transparent focus:ring-0 focus:outline-none text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">A code like es or pt-BR; empty uses the video&apos;s language</p>
+          </div>
+
+          <button
+            onClick={() => {
+              onChange(defaultShortsOptions);
+              onLanguageChange("");
+              setKeywordText("");
+            }}
+            disabled={disabled}
+            className="px-3 py-1 text-xs border border-dashed hover:bg-muted"
+          >
+            reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
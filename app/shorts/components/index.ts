@@ -1 +1,2 @@
 export { GenerateForm } from "./GenerateForm";
+export { ShortsSettings } from "./ShortsSettings";
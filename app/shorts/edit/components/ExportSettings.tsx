@@ -1,7 +1,9 @@
 "use client";
 
 import { useState } from "react";
-import { Settings2, ChevronDown, Download, Loader2 } from "lucide-react";
+import { Settings2, ChevronDown, Download, Loader2, X } from "lucide-react";
+import type { JobProgress } from "../../../lib/jobs";
+import { JobProgressBar } from "../../../components/JobProgressBar";
 
 type Quality = "720" | "1080" | "best";
 
@@ -9,10 +11,12 @@ interface ExportSettingsProps {
   quality: Quality;
   onQualityChange: (quality: Quality) => void;
   isDownloading: boolean;
+  progress: JobProgress | null;
   onDownload: () => void;
+  onCancel: () => void;
 }
 
-export function ExportSettings({ quality, onQualityChange, isDownloading, onDownload }: ExportSettingsProps) {
+export function ExportSettings({ quality, onQualityChange, isDownloading, progress, onDownload, onCancel }: ExportSettingsProps) {
   const [showQualityMenu, setShowQualityMenu] = useState(false);
 
   const qualityOptions = [
@@ -84,6 +88,18 @@ export function ExportSettings({ quality, onQualityChange, isDownloading, onDown
           </>
         )}
       </button>
+
+      {isDownloading && progress && <JobProgressBar progress={progress} />}
+
+      {isDownloading && (
+        <button
+          onClick={onCancel}
+          className="w-full py-2 border border-dashed text-sm flex items-center justify-center gap-2 hover:bg-muted transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel Export
+        </button>
+      )}
     </div>
   );
 }
@@ -1,12 +1,10 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
+import { captionChunks } from "../../../lib/captions";
+import type { TranscriptSegment } from "../../../lib/shorts-export";
 
-export interface TranscriptSegment {
-  start: number;
-  end: number;
-  text: string;
-}
+export type { TranscriptSegment } from "../../../lib/shorts-export";
 
 export interface CaptionStyleConfig {
   fontFamily: string;
@@ -38,7 +36,8 @@ function decodeHtmlEntities(text: string): string {
     .replace(/&nbsp;/g, " ");
 }
 
-// Chunk a segment's text by word count and calculate timing
+// The chunk of a segment's text on screen at currentTime, timed like the
+// exported captions
 function getChunkedCaption(
   segment: TranscriptSegment,
   currentTime: number,
@@ -46,22 +45,10 @@ function getChunkedCaption(
 ): string | null {
   const cleanText = decodeHtmlEntities(segment.text).trim();
   if (!cleanText) return null;
-  
-  const words = cleanText.split(/\s+/).filter(w => w.length > 0);
-  if (words.length === 0) return null;
-  
-  // If within limit, return full text
-  if (words.length <= maxWords) return cleanText;
-  
-  // Calculate which chunk we're in based on time
-  const segDuration = segment.end - segment.start;
-  const timePerWord = segDuration / words.length;
-  const timeIntoSegment = currentTime - segment.start;
-  const wordIndex = Math.floor(timeIntoSegment / timePerWord);
-  const chunkIndex = Math.floor(wordIndex / maxWords);
-  const startWord = chunkIndex * maxWords;
-  
-  return words.slice(startWord, startWord + maxWords).join(" ");
+
+  const chunks = captionChunks({ ...segment, text: cleanText }, maxWords);
+  const chunk = chunks.find((chunk) => currentTime < chunk.end) ?? chunks[chunks.length - 1];
+  return chunk ? decodeHtmlEntities(chunk.text) : null;
 }
 
 export function SyncedCaptions({ segments, currentTime, style }: SyncedCaptionsProps) {
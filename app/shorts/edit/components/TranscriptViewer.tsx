@@ -123,7 +123,17 @@ export function TranscriptViewer({
                     ${isActive ? "shimmer-text font-medium" : ""}
                   `}
                 >
-                  {seg.text}
+                  {isActive && seg.words?.length ? (
+                    // Words light up as they are spoken
+                    seg.words.map((word, wordIdx) => (
+                      <span key={wordIdx} className={currentTime >= word.start ? "" : "opacity-50"}>
+                        {wordIdx > 0 && " "}
+                        {word.text}
+                      </span>
+                    ))
+                  ) : (
+                    seg.text
+                  )}
                 </span>
               )}
               
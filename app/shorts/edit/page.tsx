@@ -17,6 +17,8 @@ import {
   type TranscriptSegment,
   type CaptionStyleConfig,
 } from "./components";
+import type { JobProgress } from "../../lib/jobs";
+import { runJob, downloadJobFile } from "../../lib/jobs-client";
 
 type EditTab = "trim" | "captions" | "export";
 
@@ -59,6 +61,8 @@ function EditContent() {
   const [isMuted, setIsMuted] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [exportProgress, setExportProgress] = useState<JobProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
   const [quality, setQuality] = useState<"720" | "1080" | "best">("1080");
   const [caption, setCaption] = useState<CaptionStyle>(() => getDefaultCaption(transcriptParam));
   const [segments, setSegments] = useState<TranscriptSegment[]>([]);
@@ -75,6 +79,9 @@ function EditContent() {
     }
   }, []);
 
+  // Cancel a running export when leaving the page
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
   useEffect(() => {
     if (!sourceUrl) {
       router.push("/shorts/select");
@@ -168,6 +175,11 @@ function EditContent() {
 
   const handleDownload = async () => {
     setIsDownloading(true);
+    setExportProgress(null);
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
     try {
       let downloadUrl = sourceUrl;
       try {
@@ -177,43 +189,33 @@ function EditContent() {
           downloadUrl = decoded;
         }
       } catch {}
-      
-      const params = new URLSearchParams({
-        url: downloadUrl,
-        start: startTime.toString(),
-        end: endTime.toString(),
-        quality: quality,
-      });
 
       // Add segments and caption style for subtitle burning (only if captions are enabled)
-      if (showCaptions && segments.length > 0) {
-        params.set("segments", encodeURIComponent(JSON.stringify(segments)));
-        params.set("captionStyle", encodeURIComponent(JSON.stringify(captionStyle)));
-      } else if (caption.text) {
-        params.set("caption", JSON.stringify(caption));
-      }
-
-      const response = await fetch(`/api/shorts/download?${params}`);
-      
-      if (response.ok) {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${titleParam.replace(/[^a-z0-9]/gi, "_")}_short.mp4`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        window.URL.revokeObjectURL(url);
-      } else {
-        const error = await response.json();
-        alert(error.error || "Download failed");
-      }
-    } catch (error) {
+      const withCaptions = showCaptions && segments.length > 0;
+
+      const job = await runJob(
+        {
+          type: "short",
+          url: downloadUrl,
+          start: startTime,
+          end: endTime,
+          quality,
+          segments: withCaptions ? segments : [],
+          captionStyle: withCaptions ? captionStyle : null,
+        },
+        (snapshot) => setExportProgress(snapshot.progress),
+        controller.signal
+      );
+
+      downloadJobFile(job);
+    } catch (error: any) {
+      if (error.name === "AbortError") return;
       console.error("Download error:", error);
-      alert("Download failed");
+      alert(error.message || "Download failed");
     } finally {
+      exportAbortRef.current = null;
       setIsDownloading(false);
+      setExportProgress(null);
     }
   };
 
@@ -342,7 +344,9 @@ function EditContent() {
                   quality={quality}
                   onQualityChange={setQuality}
                   isDownloading={isDownloading}
+                  progress={exportProgress}
                   onDownload={handleDownload}
+                  onCancel={() => exportAbortRef.current?.abort()}
                 />
               )}
             </div>
@@ -360,7 +364,8 @@ function EditContent() {
                   }}
                   onSegmentEdit={(index, text) => {
                     const updated = [...segments];
-                    updated[index] = { ...updated[index], text };
+                    // Edited text no longer matches the word timestamps
+                    updated[index] = { ...updated[index], text, words: undefined };
                     setSegments(updated);
                   }}
                 />
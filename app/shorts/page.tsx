@@ -4,6 +4,7 @@ import { useState, useEffect, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import { GenerateForm } from "./components/GenerateForm";
+import { defaultShortsOptions, type ShortsOptions } from "../lib/shorts-options";
 
 function TranscriptContent() {
   const searchParams = useSearchParams();
@@ -13,6 +14,9 @@ function TranscriptContent() {
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState("");
   const [step, setStep] = useState<"idle" | "transcribing" | "analyzing" | "generating">("idle");
+  const [options, setOptions] = useState<ShortsOptions>(defaultShortsOptions);
+  // Empty lets the server use the video's own language
+  const [language, setLanguage] = useState("");
 
   useEffect(() => {
     if (!videoUrl) {
@@ -32,7 +36,7 @@ function TranscriptContent() {
       const response = await fetch("/api/shorts/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: videoUrl }),
+        body: JSON.stringify({ url: videoUrl, language: language || undefined, options }),
       });
 
       await new Promise(r => setTimeout(r, 500));
@@ -46,6 +50,7 @@ function TranscriptContent() {
           videoInfo: data.videoInfo,
           streamUrl: data.streamUrl || "",
           sourceUrl: videoUrl,
+          transcript: data.transcript,
         }));
         
         router.push("/shorts/select");
@@ -79,6 +84,10 @@ function TranscriptContent() {
         generating={generating}
         step={step}
         error={error}
+        options={options}
+        onOptionsChange={setOptions}
+        language={language}
+        onLanguageChange={setLanguage}
         onGenerate={generateShorts}
       />
     </main>
@@ -55,8 +55,9 @@ export const ShortPreview = forwardRef<IphoneHandle, ShortPreviewProps>(({
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
+    // Clip cuts land on pauses, so show tenths of a second
+    const secs = (Math.floor((seconds % 60) * 10) / 10).toFixed(1);
+    return `${mins}:${secs.padStart(4, "0")}`;
   };
 
   // Handle time range looping
@@ -232,7 +233,7 @@ export const ShortPreview = forwardRef<IphoneHandle, ShortPreviewProps>(({
           <div className="text-center">
             <div className="text-sm font-medium">Short #{selectedIndex + 1}</div>
             <div className="text-xs text-muted-foreground">
-              {formatTime(selectedShort.startTime)} - {formatTime(selectedShort.endTime)} ({duration}s)
+              {formatTime(selectedShort.startTime)} - {formatTime(selectedShort.endTime)} ({duration.toFixed(1)}s)
             </div>
           </div>
           <button
@@ -1,6 +1,6 @@
 "use client";
 
-import { Play, Clock } from "lucide-react";
+import { Play, Clock, Download } from "lucide-react";
 
 interface Short {
   id: string;
@@ -21,19 +21,31 @@ interface ShortsListProps {
   selectedIndex: number;
   videoInfo: VideoInfo | null;
   onShortClick: (index: number) => void;
+  // Export every short into one ZIP
+  onDownloadAll?: () => void;
 }
 
-export function ShortsList({ shorts, selectedIndex, videoInfo, onShortClick }: ShortsListProps) {
+export function ShortsList({ shorts, selectedIndex, videoInfo, onShortClick, onDownloadAll }: ShortsListProps) {
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
+    // Clip cuts land on pauses, so show tenths of a second
+    const secs = (Math.floor((seconds % 60) * 10) / 10).toFixed(1);
+    return `${mins}:${secs.padStart(4, "0")}`;
   };
 
   return (
     <div className="flex-1 space-y-4 min-w-0">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-medium">{shorts.length} Shorts Found</h2>
+        {onDownloadAll && shorts.length > 1 && (
+          <button
+            onClick={onDownloadAll}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border border-dashed hover:bg-muted transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download all (ZIP)
+          </button>
+        )}
       </div>
 
       <div className="grid gap-3">
@@ -97,7 +109,7 @@ function ShortCard({ short, index, isSelected, thumbnail, onClick, formatTime }:
             </h3>
             <div className={`flex items-center gap-1 text-xs shrink-0 ${isSelected ? "opacity-70" : "text-muted-foreground"}`}>
               <Clock className="w-3 h-3" />
-              {duration}s
+              {duration.toFixed(1)}s
             </div>
           </div>
           <p className={`text-sm mt-1 line-clamp-2 ${isSelected ? "opacity-80" : "text-muted-foreground"}`}>
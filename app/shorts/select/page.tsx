@@ -4,12 +4,8 @@ import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import { ShortPreview, ShortsList, type IphoneHandle } from "./components";
-
-interface TranscriptSegment {
-  start: number;
-  end: number;
-  text: string;
-}
+import { downloadArchive } from "../../lib/archive-client";
+import type { TranscriptSegment } from "../../lib/shorts-export";
 
 interface Short {
   id: string;
@@ -28,11 +24,18 @@ interface VideoInfo {
   thumbnail: string;
 }
 
+interface TranscriptInfo {
+  source: "subtitles" | "speech" | "placeholder";
+  language: string | null;
+  synthetic: boolean;
+}
+
 interface ShortsData {
   shorts: Short[];
   videoInfo: VideoInfo;
   streamUrl: string;
   sourceUrl: string;
+  transcript?: TranscriptInfo;
 }
 
 export default function SelectPage() {
@@ -87,6 +90,23 @@ export default function SelectPage() {
     router.push(`/shorts/edit?${params}`);
   };
 
+  // Each short is exported with default captions while the ZIP is sent
+  const handleDownloadAll = () => {
+    if (!data) return;
+
+    downloadArchive({
+      name: `${data.videoInfo?.title || "video"} shorts`,
+      items: data.shorts.map((short) => ({
+        type: "short",
+        url: data.sourceUrl,
+        start: short.startTime,
+        end: short.endTime,
+        quality: "1080",
+        segments: short.segments ?? [],
+      })),
+    });
+  };
+
   if (!data) {
     return (
       <div className="min-h-dvh flex items-center justify-center">
@@ -114,7 +134,13 @@ export default function SelectPage() {
         </div>
       </header>
 
-      <div className="max-w-7xl mx-auto px-4 py-6">
+      <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {data.transcript?.synthetic && (
+          <p className="p-3 border border-dashed text-sm text-muted-foreground">
+            This video has no subtitles and speech-to-text is not set up on the server, so these clips are evenly
+            spaced rather than picked from what is said, and their captions are placeholder text.
+          </p>
+        )}
         <div className="flex flex-col lg:flex-row gap-8">
           <ShortPreview
             ref={iphoneRef}
@@ -130,6 +156,7 @@ export default function SelectPage() {
             selectedIndex={selectedIndex}
             videoInfo={data.videoInfo}
             onShortClick={handleShortClick}
+            onDownloadAll={handleDownloadAll}
           />
         </div>
       </div>
@@ -3,17 +3,30 @@
 import { useState, useEffect, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { ArrowLeft, Loader2, Image, Scissors } from "lucide-react";
-import { FormatSelector } from "../components/FormatSelector";
+import { FormatSelector, AUDIO_FORMAT_ID, defaultFormatId } from "../components/FormatSelector";
 import { DownloadButton } from "../components/DownloadButton";
 import { ClipSelector } from "../components/ClipSelector";
 import { ThumbnailModal } from "../components/ThumbnailModal";
+import { SubtitlesPanel } from "../components/SubtitlesPanel";
+import type { CutMode } from "../lib/clip";
+import { defaultAudioOptions, type AudioOptions } from "../lib/audio";
+import { formatForHeight, type VideoFormat } from "../lib/formats";
+import { defaultVideoOptions, type VideoOptions } from "../lib/container";
+import { subtitleEmbedError } from "../lib/subtitles";
+import { normalizeUrl, embedUrl as getEmbedUrl } from "../lib/urls";
+import { formatSeconds } from "../lib/utils";
 
 interface VideoInfo {
   thumbnail: string;
+  // Signed by the server so the thumbnail proxy accepts the URL
+  thumbnailToken?: string | null;
   title: string;
   duration: string;
   platform: string;
   fileSize?: string;
+  formats?: VideoFormat[];
+  id?: string;
+  uploader?: string;
 }
 
 function VideoContent() {
@@ -22,11 +35,18 @@ function VideoContent() {
   const url = searchParams.get("url") || "";
 
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
-  const [selectedFormat, setSelectedFormat] = useState("best[height<=720]");
+  const [selectedFormat, setSelectedFormat] = useState(formatForHeight(720));
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  // What the user can do about the error, from the API's error taxonomy
+  const [remediation, setRemediation] = useState("");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
+  const [cutMode, setCutMode] = useState<CutMode>("fast");
+  const [audioOptions, setAudioOptions] = useState<AudioOptions>(defaultAudioOptions);
+  const [videoOptions, setVideoOptions] = useState<VideoOptions>(defaultVideoOptions);
+  const [embedMetadata, setEmbedMetadata] = useState(false);
+  const [subtitleLangs, setSubtitleLangs] = useState<string[]>([]);
   const [showThumbnailModal, setShowThumbnailModal] = useState(false);
 
   useEffect(() => {
@@ -35,9 +55,14 @@ function VideoContent() {
       return;
     }
 
+    // A `t=` in the link starts the clip there
+    const linkStart = normalizeUrl(url)?.startTime;
+    if (linkStart) setStartTime(formatSeconds(linkStart));
+
     const fetchVideoInfo = async () => {
       setLoading(true);
       setError("");
+      setRemediation("");
       
       try {
         const response = await fetch("/api/video-info", {
@@ -48,10 +73,16 @@ function VideoContent() {
 
         if (response.ok) {
           const info = await response.json();
+          if (info.type === "playlist") {
+            router.replace(`/playlist?url=${encodeURIComponent(url)}`);
+            return;
+          }
           setVideoInfo(info);
+          setSelectedFormat(defaultFormatId(info.formats));
         } else {
           const errorData = await response.json();
           setError(errorData.error || "Failed to fetch video info");
+          setRemediation(errorData.remediation || "");
         }
       } catch (err) {
         setError("Failed to fetch video info");
@@ -63,28 +94,15 @@ function VideoContent() {
     fetchVideoInfo();
   }, [url, router]);
 
-  // Get embed URL for video preview
-  const getEmbedUrl = (videoUrl: string) => {
-    try {
-      if (videoUrl.includes("youtube.com") || videoUrl.includes("youtu.be")) {
-        const videoId = videoUrl.includes("youtu.be")
-          ? videoUrl.split("youtu.be/")[1]?.split("?")[0]
-          : new URL(videoUrl).searchParams.get("v");
-        return videoId ? `https://www.youtube.com/embed/${videoId}` : null;
-      }
+  const normalized = normalizeUrl(url);
+  const embedUrl = getEmbedUrl(normalized);
 
-      if (videoUrl.includes("vimeo.com")) {
-        const videoId = videoUrl.split("vimeo.com/")[1]?.split("?")[0];
-        return videoId ? `https://player.vimeo.com/video/${videoId}` : null;
-      }
-
-      return null;
-    } catch {
-      return null;
-    }
-  };
-
-  const embedUrl = getEmbedUrl(url);
+  // Subtitles only go into full MP4/MKV video downloads
+  const subtitleError = subtitleEmbedError({
+    audio: selectedFormat === AUDIO_FORMAT_ID,
+    container: videoOptions.container,
+    clipping: !!(startTime || endTime),
+  });
 
   if (loading) {
     return (
@@ -104,6 +122,7 @@ function VideoContent() {
           <div className="text-6xl">😕</div>
           <h2 className="text-xl font-medium">Something went wrong</h2>
           <p className="text-muted-foreground">{error}</p>
+          {remediation && <p className="text-sm">{remediation}</p>}
           <button
             onClick={() => router.push("/")}
             className="px-4 py-2 border border-dashed hover:bg-muted transition-colors"
@@ -203,8 +222,10 @@ function VideoContent() {
             duration={videoInfo.duration}
             startTime={startTime}
             endTime={endTime}
+            cutMode={cutMode}
             onStartTimeChange={setStartTime}
             onEndTimeChange={setEndTime}
+            onCutModeChange={setCutMode}
             onReset={() => {
               setStartTime("");
               setEndTime("");
@@ -217,6 +238,37 @@ function VideoContent() {
           <FormatSelector
             selected={selectedFormat}
             onChange={setSelectedFormat}
+            audio={audioOptions}
+            onAudioChange={setAudioOptions}
+            video={videoOptions}
+            onVideoChange={setVideoOptions}
+            availableFormats={videoInfo.formats}
+          />
+        )}
+
+        {/* Metadata toggle */}
+        {videoInfo && (
+          <button
+            onClick={() => setEmbedMetadata(!embedMetadata)}
+            className={`w-full flex items-center justify-between p-3 border border-dashed text-sm transition-colors ${
+              embedMetadata ? "bg-foreground text-background" : "bg-background hover:bg-muted"
+            }`}
+          >
+            <span>embed metadata, chapters and cover art</span>
+            <span className="text-xs">{embedMetadata ? "on" : "off"}</span>
+          </button>
+        )}
+
+        {/* Subtitles */}
+        {videoInfo && (
+          <SubtitlesPanel
+            url={url}
+            title={videoInfo.title}
+            uploader={videoInfo.uploader}
+            videoId={videoInfo.id}
+            embedLangs={subtitleLangs}
+            onEmbedLangsChange={setSubtitleLangs}
+            embedError={subtitleError}
           />
         )}
 
@@ -227,6 +279,11 @@ function VideoContent() {
             format={selectedFormat}
             startTime={startTime}
             endTime={endTime}
+            cutMode={cutMode}
+            audio={selectedFormat === AUDIO_FORMAT_ID ? audioOptions : undefined}
+            video={selectedFormat === AUDIO_FORMAT_ID ? undefined : videoOptions}
+            embedMetadata={embedMetadata}
+            subtitles={subtitleError ? undefined : subtitleLangs}
           />
         )}
       </div>
@@ -237,8 +294,11 @@ function VideoContent() {
           isOpen={showThumbnailModal}
           onClose={() => setShowThumbnailModal(false)}
           thumbnail={videoInfo.thumbnail}
+          thumbnailToken={videoInfo.thumbnailToken}
           title={videoInfo.title}
           videoUrl={url}
+          uploader={videoInfo.uploader}
+          videoId={videoInfo.id}
         />
       )}
     </main>
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+// Stands in for yt-dlp in app/lib/ytdlp.test.ts: records its arguments to
+// $FAKE_YTDLP_LOG and prints canned output for the flag it was called with.
+// URLs containing "broken" print metadata and then fail, like yt-dlp with
+// --ignore-errors.
+const fs = require("fs");
+
+const args = process.argv.slice(2);
+if (process.env.FAKE_YTDLP_LOG) {
+  fs.appendFileSync(process.env.FAKE_YTDLP_LOG, JSON.stringify(args) + "\n");
+}
+const url = args[args.length - 1];
+
+const info = {
+  id: "dQw4w9WgXcQ",
+  title: "Fake video",
+  duration: 212,
+  uploader: "Fake uploader",
+  extractor: "youtube",
+  language: "en",
+  thumbnail: "https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg",
+  thumbnails: [
+    { url: "https://i.ytimg.com/vi/dQw4w9WgXcQ/default.jpg", width: 120, height: 90 },
+    { url: "javascript:alert(1)" },
+    { url: "https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg", width: 1280, height: 720 },
+  ],
+  formats: [
+    { format_id: "140", ext: "m4a", vcodec: "none", acodec: "mp4a.40.2", tbr: 129 },
+    { format_id: "137", ext: "mp4", width: 1920, height: 1080, vcodec: "avc1.640028", acodec: "none", filesize: 98000000 },
+  ],
+  subtitles: { en: [{ ext: "vtt", url: "https://example.com/en.vtt", name: "English" }], live_chat: [{ ext: "json" }] },
+  automatic_captions: { "es-orig": [{ ext: "vtt", url: "https://example.com/es.vtt" }], de: [{ ext: "json3" }] },
+};
+
+if (args.includes("--version")) {
+  console.log("2025.01.15");
+} else if (args.includes("--dump-single-json")) {
+  console.log(JSON.stringify(info));
+  if (url.includes("broken")) {
+    console.error("ERROR: [youtube] broken: Requested format is not available");
+    process.exit(1);
+  }
+} else if (args.includes("--list-formats")) {
+  console.log("[info] Available formats for dQw4w9WgXcQ:");
+  console.log("ID  EXT   RESOLUTION FPS | FILESIZE   TBR PROTO | VCODEC        ACODEC");
+  console.log("-------------------------------------------------------------------------");
+  console.log("140 m4a   audio only     |  3.27MiB  129k https | audio only    mp4a.40.2");
+  console.log("137 mp4   1920x1080   30 | 93.46MiB 4386k https | avc1.640028   video only");
+} else if (args.includes("--get-url")) {
+  console.log("https://media.example.com/video.mp4?sig=1");
+  console.log("https://media.example.com/audio.m4a?sig=1");
+} else if (args.includes("-o")) {
+  const output = args[args.indexOf("-o") + 1].replace("%(ext)s", "mp4");
+  console.log("[progress]512,1024,NA,2048,1");
+  console.log("[progress]1024,1024,NA,2048,0");
+  fs.writeFileSync(output, "fake video");
+} else {
+  console.error("ERROR: unexpected arguments");
+  process.exit(2);
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+
+// URLs that must never reach yt-dlp or ffmpeg: shell syntax, argument
+// injection, other schemes, and hosts outside the platform allowlist
+export const HOSTILE_URLS = [
+  'https://www.youtube.com/watch?v=abc";rm -rf ~;"',
+  'https://www.youtube.com/watch?v="$(id)"',
+  "https://www.youtube.com/watch?v=$(touch${IFS}/tmp/pwned)",
+  "https://www.youtube.com/watch?v=`id`",
+  "https://www.youtube.com/watch?v=abc\n--exec=id",
+  "file:///etc/passwd",
+  "-o/tmp/pwned",
+  "--exec=touch /tmp/pwned",
+  "$(id)",
+  "`id`",
+  "https://127.0.0.1/$(id)",
+  "https://evil.example/watch?v=dQw4w9WgXcQ",
+];
+
+const BASE = "http://localhost:3000";
+
+export function getRequest(path: string, params: Record<string, string>): NextRequest {
+  const url = new URL(path, BASE);
+  for (const [name, value] of Object.entries(params)) url.searchParams.set(name, value);
+  return new NextRequest(url);
+}
+
+export function postRequest(path: string, body: unknown): NextRequest {
+  return new NextRequest(new URL(path, BASE), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
@@ -0,0 +1,14 @@
+import { beforeEach, vi } from "vitest";
+import { spawn } from "child_process";
+
+// Every child process starts through app/lib/process.ts, so watching spawn
+// shows whether a request reached yt-dlp or ffmpeg. The real spawn still
+// runs, for tests against fake binaries.
+vi.mock("child_process", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("child_process")>();
+  return { ...actual, spawn: vi.fn(actual.spawn) };
+});
+
+beforeEach(() => {
+  vi.mocked(spawn).mockClear();
+});